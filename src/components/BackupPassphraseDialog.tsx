@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { Lock } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface BackupPassphraseDialogProps {
+  fileName: string;
+  /** Shown under the field, e.g. after a wrong passphrase */
+  error: string | null;
+  /** Key derivation takes a moment; the form is disabled meanwhile */
+  busy: boolean;
+  onCancel: () => void;
+  onSubmit: (passphrase: string) => void;
+}
+
+export const BackupPassphraseDialog = ({ fileName, error, busy, onCancel, onSubmit }: BackupPassphraseDialogProps) => {
+  const [passphrase, setPassphrase] = useState("");
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !busy && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="h-4 w-4" />
+            Encrypted Backup
+          </DialogTitle>
+          <DialogDescription>Enter the passphrase {fileName} was encrypted with.</DialogDescription>
+        </DialogHeader>
+        <form
+          className="flex flex-col gap-3 py-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (passphrase) onSubmit(passphrase);
+          }}
+        >
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="backup-unlock-passphrase">Passphrase</Label>
+            <Input
+              id="backup-unlock-passphrase"
+              type="password"
+              autoComplete="off"
+              autoFocus
+              value={passphrase}
+              disabled={busy}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <div className="flex gap-2 justify-end">
+            <Button type="button" variant="outline" onClick={onCancel} disabled={busy}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={busy || !passphrase}>
+              {busy ? "Decrypting..." : "Decrypt"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
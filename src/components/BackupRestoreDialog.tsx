@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ShieldCheck } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  BackupCounts,
+  BackupData,
+  ParsedBackup,
+  RestoreMode,
+  countBackup,
+  diffBackup,
+  getMergeNotes,
+} from "@/lib/backup";
+
+interface BackupRestoreDialogProps {
+  backup: ParsedBackup;
+  /** What's on this device now, to compare the backup against */
+  current: BackupData;
+  onClose: () => void;
+  onRestore: (data: BackupData, mode: RestoreMode) => void;
+}
+
+const ENTITY_LABELS: Record<keyof BackupCounts, string> = {
+  jars: "Jars",
+  records: "Transactions",
+  categories: "Categories",
+  notes: "Notes",
+  unallocated: "Unallocated",
+  trash: "Trash",
+};
+
+export const BackupRestoreDialog = ({ backup, current, onClose, onRestore }: BackupRestoreDialogProps) => {
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const counts = countBackup(backup.data);
+  const diff = diffBackup(current, backup.data);
+  const removedJars = diff.jars.removed;
+  const removedRecords = diff.records.removed;
+  const mergeNotes = getMergeNotes(current, backup.data);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Restore Backup</DialogTitle>
+          <DialogDescription>
+            {backup.legacy
+              ? "This backup was made by an older version of Jarify."
+              : `Made on ${format(new Date(backup.createdAt!), "MMM d, yyyy 'at' p")} with Jarify ${backup.appVersion}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-4 py-2">
+          {!backup.legacy && (
+            <p className="flex items-center gap-2 text-sm text-green-600">
+              <ShieldCheck className="h-4 w-4" />
+              Checksums match and every entry passed validation.
+            </p>
+          )}
+
+          <div className="rounded-lg border text-sm">
+            <div className="grid grid-cols-5 gap-2 border-b px-3 py-2 text-xs text-muted-foreground">
+              <span className="col-span-2" />
+              <span className="text-right">New</span>
+              <span className="text-right">Changed</span>
+              <span className="text-right">Only here</span>
+            </div>
+            {(Object.keys(ENTITY_LABELS) as (keyof BackupCounts)[]).map((entity) => (
+              <div key={entity} className="grid grid-cols-5 gap-2 px-3 py-2">
+                <span className="col-span-2">
+                  {ENTITY_LABELS[entity]}
+                  <span className="ml-1 text-xs text-muted-foreground">({counts[entity]} in backup)</span>
+                </span>
+                <span className="text-right text-green-600">{diff[entity].added}</span>
+                <span className="text-right text-amber-600">{diff[entity].changed}</span>
+                <span className="text-right text-muted-foreground">{diff[entity].removed}</span>
+              </div>
+            ))}
+          </div>
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="gap-3">
+            <div className="flex items-start gap-3 rounded-lg border p-3">
+              <RadioGroupItem value="merge" id="restore-merge" className="mt-0.5" />
+              <Label htmlFor="restore-merge" className="flex flex-col gap-1 font-normal">
+                <span className="font-medium">Merge</span>
+                <span className="text-xs text-muted-foreground">
+                  Adds what's new in the backup. Jars and transactions already on this device are matched by id and
+                  keep their current version; nothing is removed and your settings stay as they are.
+                </span>
+                {mergeNotes.movedJars > 0 && (
+                  <span className="text-xs text-amber-600">
+                    {mergeNotes.movedJars} {mergeNotes.movedJars === 1 ? "jar belongs" : "jars belong"} to a category
+                    that's deleted on this device and will be moved to another category.
+                  </span>
+                )}
+                {mergeNotes.skippedJars > 0 && (
+                  <span className="text-xs text-amber-600">
+                    {mergeNotes.skippedJars} {mergeNotes.skippedJars === 1 ? "jar" : "jars"} won't be added because
+                    there's no category to put {mergeNotes.skippedJars === 1 ? "it" : "them"} in.
+                  </span>
+                )}
+                {mergeNotes.currencyChanged.length > 0 && (
+                  <span className="text-xs text-amber-600">
+                    Transactions from the backup won't be added to {mergeNotes.currencyChanged.join(", ")}: the currency
+                    changed since the backup was made.
+                  </span>
+                )}
+              </Label>
+            </div>
+            <div className="flex items-start gap-3 rounded-lg border p-3">
+              <RadioGroupItem value="replace" id="restore-replace" className="mt-0.5" />
+              <Label htmlFor="restore-replace" className="flex flex-col gap-1 font-normal">
+                <span className="font-medium">Replace all</span>
+                <span className="text-xs text-muted-foreground">
+                  Everything on this device, settings included, is replaced by the backup.
+                </span>
+                {(removedJars > 0 || removedRecords > 0) && (
+                  <span className="text-xs text-destructive">
+                    {removedJars} {removedJars === 1 ? "jar" : "jars"} and {removedRecords}{" "}
+                    {removedRecords === 1 ? "transaction" : "transactions"} only on this device will be removed.
+                  </span>
+                )}
+              </Label>
+            </div>
+          </RadioGroup>
+          <p className="text-xs text-muted-foreground">You can undo the restore with the undo button afterwards.</p>
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              variant={mode === "replace" ? "destructive" : "default"}
+              onClick={() => onRestore(backup.data, mode)}
+            >
+              {mode === "replace" ? "Replace All" : "Merge"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,6 @@
-import { Download, Upload } from "lucide-react";
+import { useState } from "react";
+import { format } from "date-fns";
+import { Download, FileSpreadsheet, History, Upload } from "lucide-react";
 import { Button } from "./ui/button";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -9,63 +11,85 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Capacitor } from '@capacitor/core';
-import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BackupData, ParsedBackup, RestoreMode, backupFileName, createBackup, parseBackup } from '@/lib/backup';
+import { MIN_PASSPHRASE_LENGTH, decryptBackup, encryptBackup, isEncryptedBackup } from '@/lib/backupEncryption';
+import { CSV_DELIMITERS, CsvDelimiter, jarsToCsv, transactionsToCsv } from '@/lib/csv';
+import { SaveLocation, saveTextFile } from '@/lib/files';
+import { PlannedRow } from '@/lib/csvImport';
+import { CsvImportWizard } from '@/components/CsvImportWizard';
+import { BackupRestoreDialog } from '@/components/BackupRestoreDialog';
+import { BackupPassphraseDialog } from '@/components/BackupPassphraseDialog';
+import { AutoBackup } from '@/hooks/use-auto-backup';
+import {
+  AUTO_BACKUP_FREQUENCIES,
+  AUTO_BACKUP_KEEP_OPTIONS,
+  AutoBackupFrequency,
+  readStoredBackup,
+} from '@/lib/autoBackup';
 
 interface BackupSyncProps {
-  onExport: () => void;
-  onImport: (data: any) => void;
+  /** Current data: what backups and spreadsheets are made from and restores are compared against */
+  data: BackupData;
+  /** Currency of jars created by a spreadsheet import */
+  baseCurrency: string;
+  autoBackup: AutoBackup;
+  onRestore: (data: BackupData, mode: RestoreMode) => void;
+  onImportCsv: (rows: PlannedRow[], includeDuplicates: boolean, categoryId: number | null) => void;
 }
 
-export const BackupSync = ({ onExport, onImport }: BackupSyncProps) => {
+const savedTo = (location: SaveLocation) =>
+  location === 'documents' ? "saved to your Documents folder" : "downloaded to your device";
+
+export const BackupSync = ({ data, baseCurrency, autoBackup, onRestore, onImportCsv }: BackupSyncProps) => {
+  const { jars, categories } = data;
+  const { settings } = autoBackup;
   const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [lockedFile, setLockedFile] = useState<{ name: string; text: string } | null>(null);
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+  const [csvFile, setCsvFile] = useState<{ name: string; text: string; pickedAt: number } | null>(null);
+  const [csvDelimiter, setCsvDelimiter] = useState<CsvDelimiter>(',');
+  const [csvFrom, setCsvFrom] = useState('');
+  const [csvTo, setCsvTo] = useState('');
+
+  const passphraseProblem = !encrypt
+    ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`
+      : passphrase !== confirmPassphrase
+        ? "The passphrases don't match."
+        : null;
 
   const handleExportToDevice = async () => {
+    setExporting(true);
     try {
-      const data = {
-        jars: localStorage.getItem('jarify_jars'),
-        categories: localStorage.getItem('jarify_categories'),
-        notes: localStorage.getItem('jarify_notes'),
-        darkMode: localStorage.getItem('jarify_darkMode'),
-        exportDate: new Date().toISOString(),
-      };
-
-      const jsonData = JSON.stringify(data, null, 2);
-      const fileName = `jarify-backup-${new Date().toISOString().split('T')[0]}.json`;
-
-      // Check if running on native mobile platform
-      if (Capacitor.isNativePlatform()) {
-        // Use Capacitor Filesystem for mobile
-        await Filesystem.writeFile({
-          path: fileName,
-          data: jsonData,
-          directory: Directory.Documents,
-          encoding: Encoding.UTF8,
-        });
-
-        toast({
-          title: "Backup Created",
-          description: "Your data has been saved to Documents folder.",
-        });
-      } else {
-        // Use browser download for web
-        const blob = new Blob([jsonData], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = fileName;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-
-        toast({
-          title: "Backup Created",
-          description: "Your data has been downloaded to your device.",
-        });
-      }
-      
-      onExport();
+      const backupDocument = JSON.stringify(await createBackup(data), null, 2);
+      const contents = encrypt
+        ? JSON.stringify(await encryptBackup(backupDocument, passphrase), null, 2)
+        : backupDocument;
+      const location = await saveTextFile(backupFileName(encrypt), contents, 'application/json');
+      toast({
+        title: "Backup Created",
+        description: encrypt
+          ? `Your encrypted backup has been ${savedTo(location)}. Keep the passphrase safe; it's needed to restore.`
+          : `Your data has been ${savedTo(location)}.`,
+      });
     } catch (error) {
       console.error('Export error:', error);
       toast({
@@ -73,80 +97,383 @@ export const BackupSync = ({ onExport, onImport }: BackupSyncProps) => {
         description: "Failed to create backup file.",
         variant: "destructive",
       });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const openBackup = async (text: string) => {
+    try {
+      setBackup(await parseBackup(text));
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Invalid backup file format.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRestoreStored = async (fileName: string) => {
+    try {
+      const text = await readStoredBackup(fileName);
+      setOpen(false);
+      await openBackup(text);
+    } catch (error) {
+      console.error('Stored backup read error:', error);
+      toast({
+        title: "Import Failed",
+        description: "The backup file couldn't be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleBackUpNow = async () => {
+    try {
+      await autoBackup.backUpNow();
+      toast({
+        title: "Backup Created",
+        description: "A copy of your data was stored on this device.",
+      });
+    } catch (error) {
+      console.error('Automatic backup error:', error);
+      toast({
+        title: "Backup Failed",
+        description: "Failed to store a backup on this device.",
+        variant: "destructive",
+      });
     }
   };
 
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    if (value) autoBackup.refreshBackups();
+  };
+
+  const handleUnlock = async (candidate: string) => {
+    if (!lockedFile) return;
+    setUnlocking(true);
+    const result = await decryptBackup(lockedFile.text, candidate).finally(() => setUnlocking(false));
+    if (result.status === 'wrong-passphrase') {
+      setUnlockError("That passphrase is wrong. Check it and try again.");
+      return;
+    }
+    setLockedFile(null);
+    if (result.status === 'ok') {
+      await openBackup(result.text);
+      return;
+    }
+    const failures = {
+      unsupported: "This backup was encrypted by a newer version of Jarify. Update the app to restore it.",
+      unavailable: "Decryption isn't available on this device, so the backup can't be opened.",
+      corrupted: "The passphrase is right, but the file is damaged and can't be decrypted.",
+    };
+    toast({
+      title: "Import Failed",
+      description: failures[result.status],
+      variant: "destructive",
+    });
+  };
+
+
+  const handleExportCsv = async (kind: 'transactions' | 'jars') => {
+    try {
+      const date = new Date().toISOString().split('T')[0];
+      const contents = kind === 'transactions'
+        ? transactionsToCsv(jars, categories, { delimiter: csvDelimiter, from: csvFrom, to: csvTo })
+        : jarsToCsv(jars, categories, csvDelimiter);
+      const location = await saveTextFile(`jarify-${kind}-${date}.csv`, contents, 'text/csv');
+      toast({
+        title: "Export Complete",
+        description: `The ${kind === 'transactions' ? "transactions" : "jar summary"} CSV has been ${savedTo(location)}.`,
+      });
+    } catch (error) {
+      console.error('CSV export error:', error);
+      toast({
+        title: "Export Failed",
+        description: "Failed to create the CSV file.",
+        variant: "destructive",
+      });
+    }
+  };
 
   const handleImportFromDevice = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    // Let the same file be picked again later
+    event.target.value = '';
 
     const reader = new FileReader();
+    if (/\.csv$/i.test(file.name) || file.type === 'text/csv') {
+      reader.onload = (e) => {
+        setOpen(false);
+        setCsvFile({ name: file.name, text: e.target?.result as string, pickedAt: Date.now() });
+      };
+      reader.readAsText(file);
+      return;
+    }
+
     reader.onload = (e) => {
-      try {
-        const data = JSON.parse(e.target?.result as string);
-        
-        if (data.jars) localStorage.setItem('jarify_jars', data.jars);
-        if (data.categories) localStorage.setItem('jarify_categories', data.categories);
-        if (data.notes) localStorage.setItem('jarify_notes', data.notes);
-        if (data.darkMode) localStorage.setItem('jarify_darkMode', data.darkMode);
-
-        toast({
-          title: "Restore Successful",
-          description: "Your data has been restored. Refreshing...",
-        });
-        
-        setTimeout(() => {
-          window.location.reload();
-        }, 1500);
-        
-        onImport(data);
-      } catch (error) {
-        toast({
-          title: "Import Failed",
-          description: "Invalid backup file format.",
-          variant: "destructive",
-        });
+      const text = e.target?.result as string;
+      setOpen(false);
+      if (isEncryptedBackup(text)) {
+        setUnlockError(null);
+        setLockedFile({ name: file.name, text });
+        return;
       }
+      openBackup(text);
     };
     reader.readAsText(file);
   };
 
   return (
-    <Dialog>
-      <DialogTrigger asChild>
-        <Button variant="outline" size="sm">
-          Backup & Sync
-        </Button>
-      </DialogTrigger>
-      <DialogContent className="sm:max-w-md">
-        <DialogHeader>
-          <DialogTitle>Backup & Restore Data</DialogTitle>
-          <DialogDescription>
-            Save your data to device and restore when needed.
-          </DialogDescription>
-        </DialogHeader>
-        <div className="flex flex-col gap-3 py-4">
-          <Button onClick={handleExportToDevice} className="w-full justify-start gap-2">
-            <Download className="h-4 w-4" />
-            Backup to Device
+    <>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm">
+            Backup & Sync
           </Button>
-          
-          <div className="relative">
-            <input
-              type="file"
-              accept=".json"
-              onChange={handleImportFromDevice}
-              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-              id="import-file"
-            />
-            <Button variant="secondary" className="w-full justify-start gap-2 pointer-events-none">
-              <Upload className="h-4 w-4" />
-              Restore from Device
+        </DialogTrigger>
+        <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Backup & Restore Data</DialogTitle>
+            <DialogDescription>
+              Save your data to device and restore when needed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col gap-3 py-4">
+            <Button
+              onClick={handleExportToDevice}
+              disabled={exporting || passphraseProblem !== null}
+              className="w-full justify-start gap-2"
+            >
+              <Download className="h-4 w-4" />
+              {exporting ? "Creating Backup..." : "Backup to Device"}
             </Button>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="backup-encrypt"
+                checked={encrypt}
+                onCheckedChange={(checked) => setEncrypt(checked === true)}
+              />
+              <Label htmlFor="backup-encrypt">Encrypt with a passphrase</Label>
+            </div>
+            {encrypt && (
+              <div className="flex flex-col gap-2">
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder="Passphrase"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  aria-label="Passphrase"
+                />
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder="Repeat passphrase"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  aria-label="Repeat passphrase"
+                />
+                <p className={`text-xs ${passphraseProblem && confirmPassphrase ? "text-destructive" : "text-muted-foreground"}`}>
+                  {passphraseProblem && confirmPassphrase
+                    ? passphraseProblem
+                    : "The passphrase can't be recovered. Without it the backup can't be restored."}
+                </p>
+              </div>
+            )}
+            
+            <div className="relative">
+              <input
+                type="file"
+                accept=".json,.csv"
+                onChange={handleImportFromDevice}
+                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                id="import-file"
+              />
+              <Button variant="secondary" className="w-full justify-start gap-2 pointer-events-none">
+                <Upload className="h-4 w-4" />
+                Restore from Device
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Pick a backup (.json) to restore it, or a spreadsheet or bank statement (.csv) to import its transactions.
+            </p>
+
+            <div className="flex flex-col gap-3 border-t pt-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="auto-backup-enabled"
+                  checked={settings.enabled}
+                  onCheckedChange={(checked) => autoBackup.updateSettings({ enabled: checked === true })}
+                />
+                <Label htmlFor="auto-backup-enabled">Back up automatically</Label>
+              </div>
+              {settings.enabled && (
+                <>
+                  <div className="flex items-center justify-between gap-2">
+                    <Label>Frequency</Label>
+                    <Select
+                      value={settings.frequency}
+                      onValueChange={(value) => autoBackup.updateSettings({ frequency: value as AutoBackupFrequency })}
+                    >
+                      <SelectTrigger className="w-[200px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(AUTO_BACKUP_FREQUENCIES) as AutoBackupFrequency[]).map((frequency) => (
+                          <SelectItem key={frequency} value={frequency}>
+                            {AUTO_BACKUP_FREQUENCIES[frequency]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {settings.frequency === 'changes' && (
+                    <div className="flex items-center justify-between gap-2">
+                      <Label htmlFor="auto-backup-changes">Changes Between Backups</Label>
+                      <Input
+                        id="auto-backup-changes"
+                        type="number"
+                        min={1}
+                        className="w-[200px]"
+                        value={settings.changeThreshold}
+                        onChange={(e) => {
+                          const value = Math.floor(Number(e.target.value));
+                          if (value >= 1) autoBackup.updateSettings({ changeThreshold: value });
+                        }}
+                      />
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between gap-2">
+                    <Label>Keep</Label>
+                    <Select
+                      value={String(settings.keep)}
+                      onValueChange={(value) => autoBackup.updateSettings({ keep: Number(value) })}
+                    >
+                      <SelectTrigger className="w-[200px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {AUTO_BACKUP_KEEP_OPTIONS.map((keep) => (
+                          <SelectItem key={keep} value={String(keep)}>
+                            Last {keep} backups
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">
+                  {settings.lastBackupAt
+                    ? `Last stored ${format(new Date(settings.lastBackupAt), "MMM d, yyyy 'at' p")}.`
+                    : "Stored backups stay on this device, in the app's private storage."}
+                </p>
+                <Button variant="outline" size="sm" onClick={handleBackUpNow} className="shrink-0">
+                  Back Up Now
+                </Button>
+              </div>
+              {autoBackup.backups.length > 0 && (
+                <div className="rounded-lg border divide-y">
+                  {autoBackup.backups.map((stored) => (
+                    <div key={stored.fileName} className="flex items-center justify-between gap-2 px-3 py-2">
+                      <div className="min-w-0">
+                        <p className="text-sm truncate">{format(stored.createdAt, "MMM d, yyyy 'at' p")}</p>
+                        <p className="text-xs text-muted-foreground">{Math.max(1, Math.round(stored.size / 1024))} KB</p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRestoreStored(stored.fileName)}
+                        className="gap-1"
+                      >
+                        <History className="h-4 w-4" />
+                        Restore
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-col gap-3 border-t pt-4">
+              <div>
+                <Label>Export to Spreadsheet</Label>
+                <p className="text-xs text-muted-foreground">
+                  CSV files that open in Excel, Numbers or Google Sheets. Leave the dates empty to export everything.
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Input type="date" value={csvFrom} max={csvTo || undefined} onChange={(e) => setCsvFrom(e.target.value)} aria-label="From date" />
+                <Input type="date" value={csvTo} min={csvFrom || undefined} onChange={(e) => setCsvTo(e.target.value)} aria-label="To date" />
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <Label>Separator</Label>
+                <Select value={csvDelimiter} onValueChange={(value) => setCsvDelimiter(value as CsvDelimiter)}>
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CSV_DELIMITERS) as CsvDelimiter[]).map((delimiter) => (
+                      <SelectItem key={delimiter} value={delimiter}>
+                        {CSV_DELIMITERS[delimiter]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" onClick={() => handleExportCsv('transactions')} className="gap-2">
+                  <FileSpreadsheet className="h-4 w-4" />
+                  Transactions
+                </Button>
+                <Button variant="outline" onClick={() => handleExportCsv('jars')} className="gap-2">
+                  <FileSpreadsheet className="h-4 w-4" />
+                  Jar Summary
+                </Button>
+              </div>
+            </div>
           </div>
-        </div>
-      </DialogContent>
-    </Dialog>
+        </DialogContent>
+      </Dialog>
+      {lockedFile && (
+        <BackupPassphraseDialog
+          fileName={lockedFile.name}
+          error={unlockError}
+          busy={unlocking}
+          onCancel={() => setLockedFile(null)}
+          onSubmit={handleUnlock}
+        />
+      )}
+      {backup && (
+        <BackupRestoreDialog
+          backup={backup}
+          current={data}
+          onClose={() => setBackup(null)}
+          onRestore={(restored, mode) => {
+            onRestore(restored, mode);
+            setBackup(null);
+          }}
+        />
+      )}
+      {csvFile && (
+        <CsvImportWizard
+          key={csvFile.pickedAt}
+          file={csvFile}
+          jars={jars}
+          categories={categories}
+          baseCurrency={baseCurrency}
+          onClose={() => setCsvFile(null)}
+          onImport={(rows, includeDuplicates, categoryId) => {
+            onImportCsv(rows, includeDuplicates, categoryId);
+            setCsvFile(null);
+          }}
+        />
+      )}
+    </>
   );
 };
@@ -0,0 +1,357 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, Check, Copy } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Category, Jar } from "@/lib/domain";
+import { formatMoney, toCurrencyCode } from "@/lib/currency";
+import { parseCsv } from "@/lib/csv";
+import {
+  DATE_ORDERS,
+  DateOrder,
+  DecimalSeparator,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportOptions,
+  JarTarget,
+  PlannedRow,
+  guessMapping,
+  jarNameKey,
+  parseImportRows,
+  planImport,
+  suggestJarTargets,
+} from "@/lib/csvImport";
+
+interface CsvImportWizardProps {
+  /** The picked file; render the wizard again with a new key for another file */
+  file: { name: string; text: string };
+  jars: Jar[];
+  /** Jars the import creates go into one of these */
+  categories: Category[];
+  /** Currency of jars the import creates */
+  baseCurrency: string;
+  onClose: () => void;
+  onImport: (rows: PlannedRow[], includeDuplicates: boolean, categoryId: number | null) => void;
+}
+
+// Select values can't be empty strings
+const NONE = "none";
+const NEW_JAR = "new";
+// Preview rows shown before "and N more"
+const PREVIEW_LIMIT = 100;
+
+const targetValue = (target: JarTarget | undefined) =>
+  !target ? NONE : target.kind === "new" ? NEW_JAR : String(target.jarId);
+
+export const CsvImportWizard = ({ file, jars, categories, baseCurrency, onClose, onImport }: CsvImportWizardProps) => {
+  const cells = parseCsv(file.text);
+  const columnCount = Math.max(0, ...cells.map((row) => row.length));
+  const newJarName = file.name.replace(/\.[^.]+$/, "");
+
+  const [step, setStep] = useState<"map" | "preview">("map");
+  const [options, setOptions] = useState<ImportOptions>(() => ({
+    hasHeader: true,
+    mapping: guessMapping(cells[0] || []),
+    dateOrder: "ymd",
+    decimalSeparator: ".",
+  }));
+  const [targets, setTargets] = useState<Record<string, JarTarget>>({});
+  const [fallback, setFallback] = useState<JarTarget>(() =>
+    jars[0] ? { kind: "existing", jarId: jars[0].id } : { kind: "new", name: newJarName }
+  );
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [categoryId, setCategoryId] = useState<number | null>(categories[0]?.id ?? null);
+
+  const updateOptions = (changes: Partial<ImportOptions>) => setOptions({ ...options, ...changes });
+  const columnLabel = (index: number) =>
+    options.hasHeader && cells[0]?.[index] ? cells[0][index] : `Column ${index + 1}`;
+  const parsed = parseImportRows(cells, options);
+  const planned = planImport(parsed, jars, targets, fallback, baseCurrency, includeDuplicates);
+  const errors = planned.filter((row) => row.error);
+  const duplicates = planned.filter((row) => !row.error && row.duplicate);
+  const readyCount = planned.length - errors.length - (includeDuplicates ? 0 : duplicates.length);
+  const jarNames = [...new Set(parsed.flatMap((row) => (row.jarName ? [row.jarName.trim()] : [])))];
+  const needsFallback = parsed.some((row) => !row.error && !row.jarName);
+  const canContinue = options.mapping.date !== null && options.mapping.amount !== null;
+  const createsJars = planned.some((row) => !row.error && row.target?.kind === "new");
+  // Jars are only shown inside a category, so new ones need somewhere to go
+  const needsCategory = createsJars && categoryId === null;
+
+  const showPreview = () => {
+    setTargets(suggestJarTargets(parsed, jars));
+    setStep("preview");
+  };
+
+  const toTarget = (value: string, name: string): JarTarget =>
+    value === NEW_JAR ? { kind: "new", name } : { kind: "existing", jarId: Number(value) };
+
+  const describeTarget = (row: PlannedRow) => {
+    if (!row.target) return "";
+    if (row.target.kind === "new") return `${row.target.name} (new)`;
+    const jarId = row.target.jarId;
+    return jars.find((jar) => jar.id === jarId)?.name || "";
+  };
+
+  const rowCurrency = (row: PlannedRow) => {
+    const target = row.target;
+    return target?.kind === "existing" ? jars.find((jar) => jar.id === target.jarId)?.currency : baseCurrency;
+  };
+
+  const jarSelect = (value: string, onChange: (value: string) => void, newLabel: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[180px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {jars.map((jar) => (
+          <SelectItem key={jar.id} value={String(jar.id)}>
+            {jar.name} ({toCurrencyCode(jar.currency)})
+          </SelectItem>
+        ))}
+        <SelectItem value={NEW_JAR}>{newLabel}</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            {step === "map"
+              ? `Tell us what the columns in ${file.name} contain.`
+              : "Check the rows and where they'll go before importing."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "map" ? (
+          <div className="flex flex-col gap-4 py-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="csv-has-header"
+                checked={options.hasHeader}
+                onCheckedChange={(checked) => updateOptions({ hasHeader: checked === true })}
+              />
+              <Label htmlFor="csv-has-header">The first row holds column names</Label>
+            </div>
+
+            {(Object.keys(IMPORT_FIELDS) as ImportField[]).map((field) => (
+              <div key={field} className="flex items-center justify-between gap-2">
+                <Label>
+                  {IMPORT_FIELDS[field].label}
+                  {!IMPORT_FIELDS[field].required && <span className="text-muted-foreground font-normal"> (optional)</span>}
+                </Label>
+                <Select
+                  value={options.mapping[field] === null ? NONE : String(options.mapping[field])}
+                  onValueChange={(value) =>
+                    updateOptions({ mapping: { ...options.mapping, [field]: value === NONE ? null : Number(value) } })
+                  }
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Not in this file</SelectItem>
+                    {Array.from({ length: columnCount }, (_, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {columnLabel(index)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Without a type column, negative amounts are read as withdrawals and positive ones as deposits.
+            </p>
+
+            <div className="flex items-center justify-between gap-2">
+              <Label>Date Format</Label>
+              <Select value={options.dateOrder} onValueChange={(value) => updateOptions({ dateOrder: value as DateOrder })}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DATE_ORDERS) as DateOrder[]).map((order) => (
+                    <SelectItem key={order} value={order}>
+                      {DATE_ORDERS[order]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <Label>Decimal Separator</Label>
+              <Select
+                value={options.decimalSeparator}
+                onValueChange={(value) => updateOptions({ decimalSeparator: value as DecimalSeparator })}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=".">Point (1,234.50)</SelectItem>
+                  <SelectItem value=",">Comma (1.234,50)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={showPreview} disabled={!canContinue}>
+                Preview
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-4 py-2">
+            {needsFallback && (
+              <div className="flex items-center justify-between gap-2">
+                <Label>{options.mapping.jar === null ? "Import Into" : "Rows Without a Jar"}</Label>
+                {jarSelect(
+                  targetValue(fallback),
+                  (value) => setFallback(toTarget(value, newJarName)),
+                  `New jar "${newJarName}"`
+                )}
+              </div>
+            )}
+            {jarNames.map((name) => (
+              <div key={name} className="flex items-center justify-between gap-2">
+                <Label className="truncate">"{name}"</Label>
+                {jarSelect(
+                  targetValue(targets[jarNameKey(name)]),
+                  (value) => setTargets({ ...targets, [jarNameKey(name)]: toTarget(value, name) }),
+                  "New jar"
+                )}
+              </div>
+            ))}
+            {createsJars && (
+              <>
+                {categories.length > 0 ? (
+                  <div className="flex items-center justify-between gap-2">
+                    <Label>Category for New Jars</Label>
+                    <Select
+                      value={categoryId === null ? NONE : String(categoryId)}
+                      onValueChange={(value) => setCategoryId(Number(value))}
+                    >
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={String(category.id)}>
+                            {category.icon} {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <p className="text-sm text-destructive">
+                    Create a category first, or import into existing jars; new jars need a category to appear in.
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  New jars use {baseCurrency} and start with a target of what was deposited. You can edit them afterwards.
+                </p>
+              </>
+            )}
+
+            <div className="grid grid-cols-3 gap-2 text-center text-sm">
+              <div className="rounded-lg border p-2">
+                <p className="font-bold">{planned.length - errors.length - duplicates.length}</p>
+                <p className="text-xs text-muted-foreground">New</p>
+              </div>
+              <div className="rounded-lg border p-2">
+                <p className="font-bold">{duplicates.length}</p>
+                <p className="text-xs text-muted-foreground">Already in your jars</p>
+              </div>
+              <div className="rounded-lg border p-2">
+                <p className="font-bold">{errors.length}</p>
+                <p className="text-xs text-muted-foreground">Can't be imported</p>
+              </div>
+            </div>
+
+            {duplicates.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="csv-include-duplicates"
+                  checked={includeDuplicates}
+                  onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                />
+                <Label htmlFor="csv-include-duplicates">Import rows that look like duplicates too</Label>
+              </div>
+            )}
+
+            <div className="max-h-[40vh] overflow-y-auto rounded-lg border divide-y">
+              {planned.slice(0, PREVIEW_LIMIT).map((row) => (
+                <div key={row.line} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  {row.error ? (
+                    <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
+                  ) : row.duplicate ? (
+                    <Copy className="h-4 w-4 shrink-0 text-amber-500" />
+                  ) : (
+                    <Check className="h-4 w-4 shrink-0 text-green-600" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    {row.error ? (
+                      <p className="text-destructive">Line {row.line}: {row.error}</p>
+                    ) : (
+                      <>
+                        <p className="truncate">
+                          {format(row.date!, "MMM d, yyyy")} · {describeTarget(row)}
+                        </p>
+                        {row.note && <p className="text-xs text-muted-foreground truncate">{row.note}</p>}
+                      </>
+                    )}
+                  </div>
+                  {!row.error && (
+                    <p className={`font-bold whitespace-nowrap ${row.type === "saved" ? "text-green-600" : "text-red-600"}`}>
+                      {formatMoney(row.type === "saved" ? row.minor! : -row.minor!, rowCurrency(row), {
+                        compact: false,
+                        signed: true,
+                      })}
+                    </p>
+                  )}
+                </div>
+              ))}
+              {planned.length > PREVIEW_LIMIT && (
+                <p className="px-3 py-2 text-xs text-muted-foreground">and {planned.length - PREVIEW_LIMIT} more rows</p>
+              )}
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button
+                onClick={() => onImport(planned, includeDuplicates, categoryId)}
+                disabled={readyCount === 0 || needsCategory}
+              >
+                Import {readyCount} {readyCount === 1 ? "Transaction" : "Transactions"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
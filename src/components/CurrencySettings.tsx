@@ -0,0 +1,212 @@
+import { useRef, useState } from "react";
+import { Coins, Upload } from "lucide-react";
+import { Button } from "./ui/button";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AmountDisplay,
+  CURRENCIES,
+  CurrencyPreferences,
+  parseRatesFile,
+  rebaseRates,
+} from "@/lib/currency";
+
+interface CurrencySettingsProps {
+  preferences: CurrencyPreferences;
+  /** ISO codes used by at least one jar, listed first */
+  currenciesInUse: string[];
+  onChange: (preferences: CurrencyPreferences) => void;
+}
+
+const formatRate = (rate: number) => String(Number(rate.toPrecision(6)));
+
+const toRateInputs = (rates: Record<string, number>) =>
+  Object.fromEntries(Object.entries(rates).map(([code, rate]) => [code, formatRate(rate)]));
+
+// Empty or invalid inputs mean "no rate" for that currency
+const fromRateInputs = (inputs: Record<string, string>) => {
+  const rates: Record<string, number> = {};
+  Object.entries(inputs).forEach(([code, value]) => {
+    const rate = parseFloat(value);
+    if (isFinite(rate) && rate > 0) rates[code] = rate;
+  });
+  return rates;
+};
+
+export const CurrencySettings = ({ preferences, currenciesInUse, onChange }: CurrencySettingsProps) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [baseCurrency, setBaseCurrency] = useState(preferences.baseCurrency);
+  const [rateInputs, setRateInputs] = useState<Record<string, string>>({});
+  const [amountDisplay, setAmountDisplay] = useState<AmountDisplay>("compact");
+
+  const codes = [
+    ...new Set([...currenciesInUse, ...CURRENCIES.map((c) => c.code), ...Object.keys(rateInputs)]),
+  ].filter((code) => code !== baseCurrency);
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) return;
+    setBaseCurrency(preferences.baseCurrency);
+    setRateInputs(toRateInputs(preferences.rates));
+    setAmountDisplay(preferences.amountDisplay || "compact");
+  };
+
+  const handleBaseChange = (code: string) => {
+    const rebased = rebaseRates({ baseCurrency, rates: fromRateInputs(rateInputs) }, code);
+    setBaseCurrency(rebased.baseCurrency);
+    setRateInputs(toRateInputs(rebased.rates));
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = parseRatesFile(await file.text(), file.name, {
+        baseCurrency,
+        rates: fromRateInputs(rateInputs),
+      });
+      setRateInputs({ ...rateInputs, ...toRateInputs(imported) });
+      toast({
+        title: "Rates Imported",
+        description: `Loaded ${Object.keys(imported).length} exchange rates. Save to apply them.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Could not read the rates file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = () => {
+    onChange({
+      baseCurrency,
+      rates: fromRateInputs(rateInputs),
+      amountDisplay,
+      updatedAt: new Date().toISOString(),
+    });
+    toast({
+      title: "Currency Settings Saved",
+      description: `Totals are now shown in ${baseCurrency}.`,
+    });
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Coins className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Currencies</DialogTitle>
+          <DialogDescription>
+            Totals, charts and category sums across jars are converted into your base currency.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-4 py-4">
+          <div className="flex flex-col gap-2">
+            <Label>Base Currency</Label>
+            <Select value={baseCurrency} onValueChange={handleBaseChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[baseCurrency, ...codes].map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label>Large Amounts</Label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setAmountDisplay(amountDisplay === "compact" ? "full" : "compact")}
+            >
+              {amountDisplay === "compact" ? "Compact (1.2K)" : "Full (1,234.56)"}
+            </Button>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <Label>Exchange Rates</Label>
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV/JSON
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={handleImport}
+                className="hidden"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Leave a rate empty for currencies you don't use. Jars without a rate are left out of totals.
+              Imported files list units of each currency per one unit of their base, like ECB or Open Exchange
+              Rates files (base {baseCurrency} with EUR 0.92 means 1 {baseCurrency} = 0.92 EUR); below, each rate
+              is shown as the value of one unit in {baseCurrency}.
+            </p>
+            {codes.map((code) => (
+              <div key={code} className="flex items-center gap-2">
+                <span className="w-20 text-sm">
+                  1 {code}
+                  {currenciesInUse.includes(code) && !rateInputs[code] && (
+                    <span className="text-destructive"> *</span>
+                  )}
+                </span>
+                <span className="text-sm text-muted-foreground">=</span>
+                <Input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="any"
+                  value={rateInputs[code] || ""}
+                  onChange={(e) => setRateInputs({ ...rateInputs, [code]: e.target.value })}
+                  placeholder="Rate"
+                />
+                <span className="w-12 text-sm text-muted-foreground">{baseCurrency}</span>
+              </div>
+            ))}
+          </div>
+
+          {preferences.updatedAt && (
+            <p className="text-xs text-muted-foreground">
+              Last updated {new Date(preferences.updatedAt).toLocaleDateString()}
+            </p>
+          )}
+
+          <Button onClick={handleSave} className="w-full">
+            Save Settings
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,4 @@
-import { formatCurrency } from '@/lib/utils';
+import { formatMoney } from '@/lib/currency';
 
 interface EmotionalInsightsProps {
   totalSaved: number;
@@ -6,9 +6,10 @@ interface EmotionalInsightsProps {
   jarsCount: number;
   darkMode: boolean;
   currency?: string;
+  compact?: boolean;
 }
 
-const EmotionalInsights = ({ totalSaved, totalTarget, jarsCount, darkMode, currency = '$' }: EmotionalInsightsProps) => {
+const EmotionalInsights = ({ totalSaved, totalTarget, jarsCount, darkMode, currency = 'USD', compact = true }: EmotionalInsightsProps) => {
   const progress = totalTarget > 0 ? (totalSaved / totalTarget) * 100 : 0;
   
   const getMotivationalMessage = () => {
@@ -82,7 +83,7 @@ const EmotionalInsights = ({ totalSaved, totalTarget, jarsCount, darkMode, curre
           </div>
           <div className={`${darkMode ? 'bg-gray-700' : 'bg-gradient-to-br from-green-50 to-emerald-50'} rounded-xl sm:rounded-2xl p-3 sm:p-4 text-center`}>
             <p className={`text-xs sm:text-sm ${darkMode ? 'text-gray-400' : 'text-gray-600'} mb-1`}>Saved</p>
-            <p className="text-xl sm:text-2xl md:text-3xl font-bold text-green-600">{currency}{formatCurrency(totalSaved)}</p>
+            <p className="text-xl sm:text-2xl md:text-3xl font-bold text-green-600">{formatMoney(totalSaved, currency, { compact })}</p>
           </div>
         </div>
       </div>
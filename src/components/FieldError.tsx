@@ -0,0 +1,17 @@
+interface FieldErrorProps {
+  message?: string;
+}
+
+/**
+ * Inline validation message shown under a form field
+ */
+const FieldError = ({ message }: FieldErrorProps) => {
+  if (!message) return null;
+  return (
+    <p role="alert" className="text-sm text-red-600 font-medium mt-1">
+      {message}
+    </p>
+  );
+};
+
+export default FieldError;
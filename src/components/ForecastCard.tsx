@@ -0,0 +1,135 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { CalendarClock } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Jar } from '@/lib/domain';
+import { formatMoney, toCurrencyCode } from '@/lib/currency';
+import { RECENT_WINDOW_DAYS, ScheduleStatus, getForecast, getForecastSeries } from '@/lib/forecast';
+
+interface ForecastCardProps {
+  jar: Jar;
+  darkMode: boolean;
+  compact?: boolean;
+}
+
+const scheduleStyles: Record<ScheduleStatus, { label: string; className: string }> = {
+  ahead: { label: 'Ahead of schedule', className: 'bg-green-100 text-green-700' },
+  'on-track': { label: 'On track', className: 'bg-blue-100 text-blue-700' },
+  behind: { label: 'Behind schedule', className: 'bg-red-100 text-red-700' },
+};
+
+const seriesNames: Record<string, string> = {
+  balance: 'Saved',
+  expected: 'Expected',
+  optimistic: 'Optimistic',
+  pessimistic: 'Pessimistic',
+};
+
+const formatDate = (date: Date) => format(date, 'MMM d, yyyy');
+
+const ForecastCard = ({ jar, darkMode, compact = true }: ForecastCardProps) => {
+  const currency = toCurrencyCode(jar.currency);
+  const forecast = getForecast(jar);
+  const textColor = darkMode ? 'text-white' : 'text-gray-800';
+  const textSecondary = darkMode ? 'text-gray-400' : 'text-gray-600';
+  const axisColor = darkMode ? '#e5e7eb' : '#1f2937';
+  const gridColor = darkMode ? '#374151' : '#e5e7eb';
+  const perDay = (rate: number) => `${formatMoney(Math.round(rate), currency, { compact })}/day`;
+
+  if (forecast.remaining === 0) return null;
+
+  const { expected, optimistic, pessimistic, schedule, pace } = forecast;
+  const data = getForecastSeries(jar, forecast);
+  const targetTime = jar.targetDate ? parseISO(jar.targetDate).getTime() : null;
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-700' : 'bg-gradient-to-br from-indigo-50 to-blue-50'} rounded-2xl p-4 mb-6`}>
+      <div className="flex items-center justify-between mb-3 gap-2">
+        <h3 className={`text-lg font-bold ${textColor} flex items-center gap-2`}>
+          <CalendarClock size={18} className="text-indigo-500" />
+          Forecast
+        </h3>
+        {schedule && (
+          <span className={`text-xs font-semibold px-2.5 py-1 rounded-full ${scheduleStyles[schedule.status].className}`}>
+            {scheduleStyles[schedule.status].label}
+          </span>
+        )}
+      </div>
+
+      {expected.completion ? (
+        <>
+          <p className={`text-sm ${textSecondary}`}>At your current pace you'll reach the goal around</p>
+          <p className={`text-2xl font-bold ${textColor}`}>{formatDate(expected.completion)}</p>
+          <p className={`text-xs ${textSecondary} mb-3`}>
+            {pessimistic.completion
+              ? `Somewhere between ${formatDate(optimistic.completion!)} and ${formatDate(pessimistic.completion)}`
+              : `As early as ${formatDate(optimistic.completion!)}, but never at your slowest pace`}
+          </p>
+        </>
+      ) : (
+        <p className={`text-sm ${textSecondary} mb-3`}>
+          At your current pace this jar won't reach its goal. A recurring deposit or a few more regular savings will
+          put a date on it.
+        </p>
+      )}
+
+      {schedule && (
+        <p className={`text-sm ${textSecondary} mb-3`}>
+          {schedule.days !== null && schedule.status === 'ahead' && `${schedule.days} days before your target date. `}
+          {schedule.days !== null && schedule.status === 'behind' && `${-schedule.days} days after your target date. `}
+          To finish on time you need {perDay(schedule.requiredRate)}.
+        </p>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        {[
+          { label: 'Average', value: pace.average },
+          { label: `Last ${RECENT_WINDOW_DAYS} days`, value: pace.recent },
+          { label: 'Recurring', value: pace.recurring },
+        ].map(item => (
+          <div key={item.label} className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-2 text-center`}>
+            <p className={`text-xs ${textSecondary}`}>{item.label}</p>
+            <p className={`text-sm font-bold ${textColor}`}>{perDay(item.value)}</p>
+          </div>
+        ))}
+      </div>
+
+      <ResponsiveContainer width="100%" height={220}>
+        <LineChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={(time: number) => format(new Date(time), 'MMM yy')}
+            stroke={axisColor}
+            fontSize={12}
+          />
+          <YAxis
+            stroke={axisColor}
+            fontSize={12}
+            tickFormatter={(value: number) => formatMoney(value, currency, { compact: true })}
+            width={72}
+          />
+          <Tooltip
+            labelFormatter={(time: number) => formatDate(new Date(time))}
+            formatter={(value: number, name: string) => [formatMoney(value, currency, { compact }), seriesNames[name] || name]}
+            contentStyle={{
+              backgroundColor: darkMode ? '#1f2937' : '#ffffff',
+              border: `1px solid ${gridColor}`,
+              borderRadius: '8px'
+            }}
+          />
+          <ReferenceLine y={jar.target} stroke="#a855f7" strokeDasharray="4 4" />
+          {targetTime !== null && <ReferenceLine x={targetTime} stroke="#a855f7" strokeDasharray="4 4" />}
+          <Line type="monotone" dataKey="balance" stroke="#4cb673" strokeWidth={3} dot={false} connectNulls />
+          <Line type="monotone" dataKey="optimistic" stroke="#86efac" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+          <Line type="monotone" dataKey="expected" stroke="#3c78f0" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+          <Line type="monotone" dataKey="pessimistic" stroke="#f59e0b" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default ForecastCard;
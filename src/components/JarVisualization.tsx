@@ -1,11 +1,25 @@
+export interface JarMarker {
+  /** Height as a percentage of the target */
+  progress: number;
+  label: string;
+  reached: boolean;
+}
+
 interface JarVisualizationProps {
   progress: number;
   jarId: number;
   isLarge?: boolean;
+  /** Milestone lines drawn across the jar */
+  markers?: JarMarker[];
 }
 
-const JarVisualization = ({ progress, jarId, isLarge = false }: JarVisualizationProps) => {
-  const viewBox = isLarge ? "0 0 280 340" : "0 0 280 300";
+const JarVisualization = ({ progress, jarId, isLarge = false, markers = [] }: JarVisualizationProps) => {
+  // Anything above 100% spills over the lip; the extra headroom keeps the spill visible
+  const overflow = Math.max(progress - 100, 0);
+  const lipY = isLarge ? 28 : 25;
+  const headroom = overflow > 0 ? 30 : 0;
+  const viewBox = isLarge ? `0 ${-headroom} 280 ${340 + headroom}` : `0 ${-headroom} 280 ${300 + headroom}`;
+  const spillHeight = 8 + Math.min(overflow, 100) / 100 * 14;
   const baseY = isLarge ? 320 : 280;
   const totalHeight = isLarge ? 275 : 235;
   const segment = totalHeight / 4;
@@ -15,6 +29,10 @@ const JarVisualization = ({ progress, jarId, isLarge = false }: JarVisualization
   const blueH = Math.min(Math.max(progress - 50, 0), 25) / 25 * segment;
   const greenH = Math.min(Math.max(progress - 75, 0), 25) / 25 * segment;
 
+  const markerLines = markers
+    .filter(marker => marker.progress > 0 && marker.progress <= 100)
+    .map(marker => ({ ...marker, y: baseY - (marker.progress / 100) * totalHeight }));
+
   const flaskPath = isLarge 
     ? "M 90 35 L 90 70 L 50 220 Q 45 250 45 270 Q 45 300 70 320 Q 95 332 140 332 Q 185 332 210 320 Q 235 300 235 270 Q 235 250 230 220 L 190 70 L 190 35 Q 190 28 185 28 L 95 28 Q 90 28 90 35 Z"
     : "M 90 30 L 90 60 L 50 200 Q 45 225 45 240 Q 45 265 70 280 Q 95 290 140 290 Q 185 290 210 280 Q 235 265 235 240 Q 235 225 230 200 L 190 60 L 190 30 Q 190 25 185 25 L 95 25 Q 90 25 90 30 Z";
@@ -38,6 +56,10 @@ const JarVisualization = ({ progress, jarId, isLarge = false }: JarVisualization
           <stop offset="0%" stopColor="#10b981" stopOpacity="0.9" />
           <stop offset="100%" stopColor="#059669" stopOpacity="0.95" />
         </linearGradient>
+        <linearGradient id={`y${jarId}`} x1="0%" y1="0%" x2="0%" y2="100%">
+          <stop offset="0%" stopColor="#fbbf24" stopOpacity="0.95" />
+          <stop offset="100%" stopColor="#d97706" stopOpacity="0.95" />
+        </linearGradient>
         <clipPath id={`c${jarId}`}>
           <path d={flaskPath} />
         </clipPath>
@@ -62,11 +84,53 @@ const JarVisualization = ({ progress, jarId, isLarge = false }: JarVisualization
         )}
       </g>
       
+      <g clipPath={`url(#c${jarId})`}>
+        {markerLines.map((marker, index) => (
+          <line
+            key={index}
+            x1="40"
+            y1={marker.y}
+            x2="240"
+            y2={marker.y}
+            stroke={marker.reached ? '#fff' : '#6b7280'}
+            strokeWidth={isLarge ? 2 : 1.5}
+            strokeDasharray="6 4"
+            opacity="0.85"
+          />
+        ))}
+      </g>
+      {isLarge && markerLines.map((marker, index) => (
+        <text
+          key={index}
+          x="242"
+          y={marker.y + 4}
+          fontSize="12"
+          fontWeight="bold"
+          fill={marker.reached ? '#059669' : '#6b7280'}
+        >
+          {marker.label}
+        </text>
+      ))}
+      
       <path d="M 92 60 L 52 195 Q 48 218 48 233" stroke="#fff" strokeWidth="3" fill="none" opacity="0.25"/>
       
       <ellipse cx="140" cy={isLarge ? 28 : 25} rx="50" ry="8" fill="#cbd5e0" stroke="#a0aec0" strokeWidth="2"/>
       <ellipse cx="140" cy={isLarge ? 26 : 23} rx="48" ry="6" fill="#e2e8f0" opacity="0.7"/>
       <ellipse cx="140" cy={isLarge ? 26 : 23} rx="42" ry="4" fill="#fff" opacity="0.5"/>
+
+      {overflow > 0 && (
+        <g>
+          <path d={`M 88 ${lipY} Q 140 ${lipY - spillHeight * 2} 192 ${lipY} Z`} fill={`url(#y${jarId})`} />
+          <path d={`M 190 ${lipY} Q 197 ${lipY + 12} 195 ${lipY + 30}`} stroke={`url(#y${jarId})`} strokeWidth="6" strokeLinecap="round" fill="none" />
+          <circle cx="195" cy={lipY + 40} r="4" fill="#f59e0b" />
+          <path d={`M 90 ${lipY} Q 84 ${lipY + 8} 86 ${lipY + 18}`} stroke={`url(#y${jarId})`} strokeWidth="5" strokeLinecap="round" fill="none" />
+          {isLarge && (
+            <text x="140" y={lipY - spillHeight - 6} textAnchor="middle" fontSize="16" fontWeight="bold" fill="#d97706">
+              +{overflow.toFixed(0)}%
+            </text>
+          )}
+        </g>
+      )}
     </svg>
   );
 };
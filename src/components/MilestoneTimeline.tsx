@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Flag, Check, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import SavingsButton from '@/components/SavingsButton';
+import FieldError from '@/components/FieldError';
+import { Jar, Milestone } from '@/lib/domain';
+import { formatMoney, parseAmount, toCurrencyCode } from '@/lib/currency';
+import { MilestoneStatus, getMilestoneStatus, getMilestones } from '@/lib/milestones';
+import { MilestoneFormValues, milestoneFormSchema } from '@/lib/validation';
+
+interface MilestoneTimelineProps {
+  jar: Jar;
+  darkMode: boolean;
+  onAdd: (milestone: Omit<Milestone, 'id' | 'reachedAt'>) => void;
+  onRemove: (milestoneId: number) => void;
+}
+
+const statusStyles: Record<MilestoneStatus, { dot: string; label: string }> = {
+  reached: { dot: 'bg-green-500 border-green-500', label: 'text-green-600' },
+  upcoming: { dot: 'bg-white border-gray-300', label: 'text-gray-500' },
+  overdue: { dot: 'bg-white border-red-400', label: 'text-red-600' },
+};
+
+const emptyForm = (): MilestoneFormValues => ({ name: '', amount: '', targetDate: '' });
+
+const MilestoneTimeline = ({ jar, darkMode, onAdd, onRemove }: MilestoneTimelineProps) => {
+  const [showForm, setShowForm] = useState(false);
+  const currency = toCurrencyCode(jar.currency);
+  const form = useForm<MilestoneFormValues>({
+    resolver: zodResolver(milestoneFormSchema(currency, jar.target)),
+    defaultValues: emptyForm(),
+  });
+
+  const milestones = getMilestones(jar);
+  const textColor = darkMode ? 'text-white' : 'text-gray-800';
+  const textSecondary = darkMode ? 'text-gray-400' : 'text-gray-600';
+  const inputClass = `w-full px-3 py-2 rounded-xl border-2 border-gray-300 focus:border-primary focus:outline-none ${
+    darkMode ? 'bg-gray-800 text-white' : 'bg-white'
+  }`;
+
+  const closeForm = () => {
+    setShowForm(false);
+    form.reset(emptyForm());
+  };
+
+  const saveMilestone = form.handleSubmit(values => {
+    onAdd({
+      name: values.name,
+      amount: parseAmount(values.amount, currency)!,
+      targetDate: values.targetDate || undefined,
+    });
+    closeForm();
+  });
+
+  const describeStatus = (milestone: Milestone) => {
+    const status = getMilestoneStatus(milestone);
+    if (status === 'reached') return `Reached ${format(new Date(milestone.reachedAt!), 'MMM d, yyyy')}`;
+    const remaining = formatMoney(Math.max(milestone.amount - jar.saved, 0), currency);
+    if (!milestone.targetDate) return `${remaining} to go`;
+    const due = format(new Date(`${milestone.targetDate}T00:00:00`), 'MMM d, yyyy');
+    return status === 'overdue' ? `${remaining} to go, was due ${due}` : `${remaining} to go by ${due}`;
+  };
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-700' : 'bg-gradient-to-br from-emerald-50 to-teal-50'} rounded-2xl p-4 mb-6`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className={`text-lg font-bold ${textColor} flex items-center gap-2`}>
+          <Flag size={18} className="text-emerald-600" />
+          Milestones
+        </h3>
+        {!showForm && (
+          <SavingsButton size="sm" variant="secondary" onClick={() => setShowForm(true)} className="px-4">
+            Add
+          </SavingsButton>
+        )}
+      </div>
+
+      {showForm && (
+        <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-3 mb-3 space-y-2`}>
+          <div>
+            <input type="text" placeholder="Name, e.g. Deposit paid" {...form.register('name')} className={inputClass} />
+            <FieldError message={form.formState.errors.name?.message} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <input
+                type="text"
+                inputMode="decimal"
+                placeholder={`Amount (${currency})`}
+                {...form.register('amount')}
+                className={inputClass}
+              />
+              <FieldError message={form.formState.errors.amount?.message} />
+            </div>
+            <div>
+              <input type="date" {...form.register('targetDate')} className={inputClass} />
+              <FieldError message={form.formState.errors.targetDate?.message} />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <SavingsButton size="sm" variant="secondary" onClick={closeForm} className="flex-1 px-4">
+              Cancel
+            </SavingsButton>
+            <SavingsButton size="sm" onClick={saveMilestone} className="flex-1 px-4">
+              Create
+            </SavingsButton>
+          </div>
+        </div>
+      )}
+
+      {milestones.length === 0 ? (
+        !showForm && (
+          <p className={`text-sm ${textSecondary}`}>
+            Break the goal into stages, like a deposit or the flights, and celebrate each one on the way.
+          </p>
+        )
+      ) : (
+        <ol className="relative ml-3 border-l-2 border-dashed border-gray-300">
+          {milestones.map((milestone, index) => {
+            const status = getMilestoneStatus(milestone);
+            return (
+              <li key={milestone.id} className="ml-5 pb-4 last:pb-0 relative">
+                <span
+                  className={`absolute -left-[31px] top-0.5 w-5 h-5 rounded-full border-2 flex items-center justify-center text-[10px] font-bold ${statusStyles[status].dot}`}
+                >
+                  {status === 'reached' ? <Check size={12} className="text-white" /> : <span className="text-gray-500">{index + 1}</span>}
+                </span>
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className={`font-semibold ${textColor}`}>
+                      {milestone.name}
+                      <span className={`ml-2 text-sm font-normal ${textSecondary}`}>{formatMoney(milestone.amount, currency)}</span>
+                    </p>
+                    <p className={`text-xs ${statusStyles[status].label}`}>{describeStatus(milestone)}</p>
+                  </div>
+                  <button
+                    onClick={() => onRemove(milestone.id)}
+                    className={`p-1.5 rounded-lg ${darkMode ? 'hover:bg-gray-600' : 'hover:bg-white'}`}
+                    title="Remove milestone"
+                  >
+                    <Trash2 size={14} className="text-red-600" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default MilestoneTimeline;
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Hourglass, X } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import SavingsButton from '@/components/SavingsButton';
+import { Jar } from '@/lib/domain';
+import { formatMoney } from '@/lib/currency';
+import { COOLING_OFF_OPTIONS, WITHDRAWAL_REASONS } from '@/lib/withdrawals';
+
+interface PendingWithdrawalsProps {
+  jar: Jar;
+  darkMode: boolean;
+  onCoolingOffChange: (hours: number) => void;
+  onRelease: (pendingId: number) => void;
+  onCancel: (pendingId: number) => void;
+}
+
+const coolingOffLabel = (hours: number) => {
+  if (hours === 0) return 'Off: withdraw immediately';
+  return hours === 1 ? '1 hour' : `${hours} hours`;
+};
+
+const PendingWithdrawals = ({ jar, darkMode, onCoolingOffChange, onRelease, onCancel }: PendingWithdrawalsProps) => {
+  const [confirmingId, setConfirmingId] = useState<number | null>(null);
+
+  const pending = jar.pendingWithdrawals || [];
+  const coolingOffHours = jar.coolingOffHours || 0;
+  const options = COOLING_OFF_OPTIONS.includes(coolingOffHours) ? COOLING_OFF_OPTIONS : [...COOLING_OFF_OPTIONS, coolingOffHours];
+  const textColor = darkMode ? 'text-white' : 'text-gray-800';
+  const textSecondary = darkMode ? 'text-gray-400' : 'text-gray-600';
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-700' : 'bg-gradient-to-br from-sky-50 to-indigo-50'} rounded-2xl p-4 mb-6`}>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-2">
+        <h3 className={`text-lg font-bold ${textColor} flex items-center gap-2`}>
+          <Hourglass size={18} className="text-indigo-500" />
+          Cooling-Off Period
+        </h3>
+        <select
+          value={coolingOffHours}
+          onChange={(e) => onCoolingOffChange(Number(e.target.value))}
+          className={`px-3 py-1.5 text-sm rounded-xl border-2 border-gray-300 focus:border-primary focus:outline-none ${
+            darkMode ? 'bg-gray-800 text-white' : 'bg-white'
+          }`}
+        >
+          {options.map(hours => (
+            <option key={hours} value={hours}>{coolingOffLabel(hours)}</option>
+          ))}
+        </select>
+      </div>
+      <p className={`text-sm ${textSecondary} ${pending.length > 0 ? 'mb-3' : ''}`}>
+        {coolingOffHours > 0
+          ? `Withdrawals wait ${coolingOffLabel(coolingOffHours)} before leaving the jar. Sleep on it; you can still confirm early or cancel.`
+          : 'Give yourself time to think: withdrawals can wait a while before they go through.'}
+      </p>
+
+      {pending.length > 0 && (
+        <div className="space-y-2">
+          {pending.map(item => (
+            <div key={item.id} className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-3`}>
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <p className={`font-bold ${textColor}`}>{formatMoney(item.amount, jar.currency)}</p>
+                  <p className={`text-xs ${textSecondary}`}>
+                    {item.reason ? WITHDRAWAL_REASONS[item.reason] : 'No reason given'}
+                    {item.note ? ` · ${item.note}` : ''}
+                  </p>
+                  <p className={`text-xs ${textSecondary}`}>
+                    Goes through {format(new Date(item.releaseAt), 'MMM d, h:mm a')} (in {formatDistanceToNow(new Date(item.releaseAt))})
+                  </p>
+                </div>
+                <button
+                  onClick={() => onCancel(item.id)}
+                  className={`p-1.5 rounded-lg ${darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                  title="Cancel withdrawal"
+                >
+                  <X size={14} className="text-red-600" />
+                </button>
+              </div>
+              {confirmingId === item.id ? (
+                <div className="flex items-center gap-2 mt-2">
+                  <p className={`text-xs ${textSecondary} flex-1`}>Still want this money now?</p>
+                  <SavingsButton size="sm" variant="secondary" onClick={() => setConfirmingId(null)} className="px-3">
+                    Keep Waiting
+                  </SavingsButton>
+                  <SavingsButton
+                    size="sm"
+                    variant="danger"
+                    onClick={() => {
+                      setConfirmingId(null);
+                      onRelease(item.id);
+                    }}
+                    className="px-3"
+                  >
+                    Withdraw
+                  </SavingsButton>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setConfirmingId(item.id)}
+                  className="text-xs font-semibold text-red-600 hover:underline mt-2"
+                >
+                  Withdraw now
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PendingWithdrawals;
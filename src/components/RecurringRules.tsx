@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Pause, Play, SkipForward, Pencil, Trash2, Repeat } from 'lucide-react';
+import { format } from 'date-fns';
+import SavingsButton from '@/components/SavingsButton';
+import FieldError from '@/components/FieldError';
+import { Jar, RecurringRule, RecurrenceFrequency } from '@/lib/domain';
+import { getNextOccurrence, setRulePaused, skipNextOccurrence, toDateKey } from '@/lib/recurring';
+import { formatMoney, parseAmount, toAmountInput, toCurrencyCode } from '@/lib/currency';
+import { RecurringRuleFormValues, recurringRuleFormSchema } from '@/lib/validation';
+
+interface RecurringRulesProps {
+  jar: Jar;
+  darkMode: boolean;
+  onChange: (rules: RecurringRule[]) => void;
+}
+
+const frequencyLabels: Record<RecurrenceFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+const emptyForm = (): RecurringRuleFormValues => ({ amount: '', frequency: 'monthly', startDate: toDateKey(new Date()) });
+
+const RecurringRules = ({ jar, darkMode, onChange }: RecurringRulesProps) => {
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+
+  const rules = jar.recurring || [];
+  const currency = toCurrencyCode(jar.currency);
+  const form = useForm<RecurringRuleFormValues>({
+    resolver: zodResolver(recurringRuleFormSchema(currency)),
+    defaultValues: emptyForm(),
+  });
+  const textColor = darkMode ? 'text-white' : 'text-gray-800';
+  const textSecondary = darkMode ? 'text-gray-400' : 'text-gray-600';
+  const inputClass = `w-full px-3 py-2 rounded-xl border-2 border-gray-300 focus:border-primary focus:outline-none ${
+    darkMode ? 'bg-gray-800 text-white' : 'bg-white'
+  }`;
+
+  const updateRule = (ruleId: number, update: (rule: RecurringRule) => RecurringRule) => {
+    onChange(rules.map(rule => (rule.id === ruleId ? update(rule) : rule)));
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    form.reset(emptyForm());
+  };
+
+  const saveRule = form.handleSubmit(values => {
+    const amount = parseAmount(values.amount, currency)!;
+    if (editingId !== null) {
+      updateRule(editingId, rule => {
+        const scheduleChanged = rule.frequency !== values.frequency || rule.startDate !== values.startDate;
+        return {
+          ...rule,
+          amount,
+          frequency: values.frequency,
+          startDate: values.startDate,
+          // A new schedule starts fresh from today instead of back-filling the old one
+          ...(scheduleChanged ? { lastRunDate: toDateKey(new Date()), skippedDates: [] } : {}),
+        };
+      });
+    } else {
+      onChange([...rules, { id: Date.now(), amount, frequency: values.frequency, startDate: values.startDate }]);
+    }
+    closeForm();
+  });
+
+  const startEdit = (rule: RecurringRule) => {
+    setEditingId(rule.id);
+    form.reset({ amount: toAmountInput(rule.amount, currency), frequency: rule.frequency, startDate: rule.startDate });
+    setShowForm(true);
+  };
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-700' : 'bg-gradient-to-br from-green-50 to-blue-50'} rounded-2xl p-4 mb-6`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className={`text-lg font-bold ${textColor} flex items-center gap-2`}>
+          <Repeat size={18} className="text-green-600" />
+          Recurring Deposits
+        </h3>
+        {!showForm && (
+          <SavingsButton size="sm" variant="secondary" onClick={() => setShowForm(true)} className="px-4">
+            Add
+          </SavingsButton>
+        )}
+      </div>
+
+      {showForm && (
+        <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-3 mb-3 space-y-2`}>
+          <div>
+            <input
+              type="text"
+              inputMode="decimal"
+              placeholder={`Amount (${currency})`}
+              {...form.register('amount')}
+              className={inputClass}
+            />
+            <FieldError message={form.formState.errors.amount?.message} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <select {...form.register('frequency')} className={inputClass}>
+              {Object.entries(frequencyLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <div>
+              <input type="date" {...form.register('startDate')} className={inputClass} />
+              <FieldError message={form.formState.errors.startDate?.message} />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <SavingsButton size="sm" variant="secondary" onClick={closeForm} className="flex-1 px-4">
+              Cancel
+            </SavingsButton>
+            <SavingsButton size="sm" onClick={saveRule} className="flex-1 px-4">
+              {editingId !== null ? 'Save' : 'Create'}
+            </SavingsButton>
+          </div>
+        </div>
+      )}
+
+      {rules.length === 0 && !showForm ? (
+        <p className={`text-sm ${textSecondary}`}>
+          Set up an automatic deposit and it will be added for you every period.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div
+              key={rule.id}
+              className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-3 flex items-center justify-between gap-2 ${
+                rule.paused ? 'opacity-60' : ''
+              }`}
+            >
+              <div>
+                <p className={`font-bold ${textColor}`}>
+                  {formatMoney(rule.amount, currency)} · {frequencyLabels[rule.frequency]}
+                </p>
+                <p className={`text-xs ${textSecondary}`}>
+                  {rule.paused
+                    ? 'Paused'
+                    : `Next: ${format(getNextOccurrence(rule), 'MMM d, yyyy')}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => updateRule(rule.id, r => setRulePaused(r, !r.paused))}
+                  className={`p-1.5 rounded-lg ${darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                  title={rule.paused ? 'Resume' : 'Pause'}
+                >
+                  {rule.paused ? <Play size={14} className={textSecondary} /> : <Pause size={14} className={textSecondary} />}
+                </button>
+                {!rule.paused && (
+                  <button
+                    onClick={() => updateRule(rule.id, r => skipNextOccurrence(r))}
+                    className={`p-1.5 rounded-lg ${darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                    title="Skip next"
+                  >
+                    <SkipForward size={14} className={textSecondary} />
+                  </button>
+                )}
+                <button
+                  onClick={() => startEdit(rule)}
+                  className={`p-1.5 rounded-lg ${darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                  title="Edit"
+                >
+                  <Pencil size={14} className={textSecondary} />
+                </button>
+                <button
+                  onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                  className={`p-1.5 rounded-lg ${darkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                  title="Delete"
+                >
+                  <Trash2 size={14} className="text-red-600" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurringRules;
@@ -1,77 +1,236 @@
-import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { useState } from 'react';
+import {
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { format } from 'date-fns';
+import type { Category, Jar } from '@/lib/domain';
+import { summarizeJar } from '@/lib/domain';
+import { CurrencyPreferences, formatMoney, toBaseMinorUnits } from '@/lib/currency';
+import {
+  REPORT_RANGE_PRESETS,
+  ReportFilters,
+  ReportGranularity,
+  ReportRangePreset,
+  defaultReportFilters,
+  filterReportJars,
+  getBalanceReport,
+  getFlowReport,
+  getReportRange,
+  getUnconvertibleJars,
+  limitRecordsToRange,
+} from '@/lib/reports';
+import { getWithdrawalReasonBreakdown } from '@/lib/withdrawals';
+import WithdrawalReasonsChart from '@/components/WithdrawalReasonsChart';
+import SavingsHeatmap from '@/components/SavingsHeatmap';
 
 interface SavingsChartProps {
-  data: Array<{ name: string; saved: number; withdrawn: number }>;
+  jars: Jar[];
+  categories: Category[];
   darkMode: boolean;
+  /** Reports are expressed in the base currency */
+  settings: CurrencyPreferences;
+  compact?: boolean;
 }
 
-const SavingsChart = ({ data, darkMode }: SavingsChartProps) => {
+const seriesColors = ['#4cb673', '#3c78f0', '#a855f7', '#f59e0b', '#ec4899', '#14b8a6'];
+
+const SavingsChart = ({ jars, categories, darkMode, settings, compact = true }: SavingsChartProps) => {
+  const [filters, setFilters] = useState<ReportFilters>(() => defaultReportFilters());
+  const currency = settings.baseCurrency;
+  const formatTick = (value: number) => formatMoney(value, currency, { compact: true });
+  const formatValue = (value: number) => formatMoney(value, currency, { compact });
   const textColor = darkMode ? '#e5e7eb' : '#1f2937';
   const gridColor = darkMode ? '#374151' : '#e5e7eb';
+  const textSecondary = darkMode ? 'text-gray-400' : 'text-gray-600';
+  const cardClass = `${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-3xl p-6 shadow-lg`;
+  const titleClass = `text-xl font-bold mb-4 ${darkMode ? 'text-white' : 'text-gray-800'}`;
+  const selectClass = `px-3 py-2 text-sm rounded-xl border-2 border-gray-300 focus:border-primary focus:outline-none ${
+    darkMode ? 'bg-gray-700 text-white' : 'bg-white'
+  }`;
+  const tooltipStyle = {
+    backgroundColor: darkMode ? '#1f2937' : '#ffffff',
+    border: `1px solid ${gridColor}`,
+    borderRadius: '8px'
+  };
+
+  const updateFilters = (changes: Partial<ReportFilters>) => setFilters(current => ({ ...current, ...changes }));
+
+  const filteredJars = filterReportJars(jars, filters);
+  const range = getReportRange(filteredJars, filters);
+  const balance = getBalanceReport(filteredJars, range, settings);
+  const flows = getFlowReport(filteredJars, range, filters.granularity, settings);
+  const reasons = getWithdrawalReasonBreakdown(limitRecordsToRange(filteredJars, range), settings);
+  const skipped = getUnconvertibleJars(filteredJars, settings);
+  const comparison = filteredJars.flatMap(jar => {
+    const saved = toBaseMinorUnits(jar.saved, jar.currency, settings);
+    const withdrawn = toBaseMinorUnits(jar.withdrawn, jar.currency, settings);
+    if (saved === null || withdrawn === null) return [];
+    return [{ ...summarizeJar(jar), saved, withdrawn }];
+  });
+  const spansYears = range.from.getFullYear() !== range.to.getFullYear();
 
   return (
-    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-      <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-3xl p-6 shadow-lg`}>
-        <h3 className={`text-xl font-bold mb-4 ${darkMode ? 'text-white' : 'text-gray-800'}`}>
-          Savings Trend
-        </h3>
-        <ResponsiveContainer width="100%" height={250}>
-          <LineChart data={data}>
-            <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
-            <XAxis dataKey="name" stroke={textColor} fontSize={12} />
-            <YAxis stroke={textColor} fontSize={12} />
-            <Tooltip 
-              contentStyle={{ 
-                backgroundColor: darkMode ? '#1f2937' : '#ffffff',
-                border: `1px solid ${gridColor}`,
-                borderRadius: '8px'
-              }}
-            />
-            <Legend />
-            <Line 
-              type="monotone" 
-              dataKey="saved" 
-              stroke="#4cb673" 
-              strokeWidth={3}
-              dot={{ fill: '#4cb673', r: 5 }}
-              activeDot={{ r: 7 }}
-              name="Saved"
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filters.preset}
+          onChange={(e) => updateFilters({ preset: e.target.value as ReportRangePreset })}
+          className={selectClass}
+        >
+          {(Object.keys(REPORT_RANGE_PRESETS) as ReportRangePreset[]).map(preset => (
+            <option key={preset} value={preset}>{REPORT_RANGE_PRESETS[preset]}</option>
+          ))}
+        </select>
+        {filters.preset === 'custom' && (
+          <>
+            <input
+              type="date"
+              value={filters.from}
+              max={filters.to}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+              className={selectClass}
             />
-            <Line 
-              type="monotone" 
-              dataKey="withdrawn" 
-              stroke="#ef4444" 
-              strokeWidth={3}
-              dot={{ fill: '#ef4444', r: 5 }}
-              activeDot={{ r: 7 }}
-              name="Withdrawn"
+            <span className={`text-sm ${textSecondary}`}>to</span>
+            <input
+              type="date"
+              value={filters.to}
+              min={filters.from}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+              className={selectClass}
             />
-          </LineChart>
-        </ResponsiveContainer>
+          </>
+        )}
+        <select
+          value={filters.categoryId ?? ''}
+          onChange={(e) => updateFilters({ categoryId: e.target.value ? parseInt(e.target.value) : null, jarId: null })}
+          className={selectClass}
+        >
+          <option value="">All categories</option>
+          {categories.map(category => (
+            <option key={category.id} value={category.id}>{category.icon} {category.name}</option>
+          ))}
+        </select>
+        <select
+          value={filters.jarId ?? ''}
+          onChange={(e) => updateFilters({ jarId: e.target.value ? parseInt(e.target.value) : null })}
+          className={selectClass}
+        >
+          <option value="">All jars</option>
+          {filterReportJars(jars, { ...filters, jarId: null }).map(jar => (
+            <option key={jar.id} value={jar.id}>{jar.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {skipped.length > 0 && (
+        <p className={`text-sm ${textSecondary}`}>
+          Not included (no exchange rate to {currency}): {skipped.map(jar => jar.name).join(', ')}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className={cardClass}>
+          <h3 className={titleClass}>
+            Balance Over Time
+          </h3>
+          {balance.series.length === 0 ? (
+            <p className={`text-sm ${textSecondary}`}>No jars match these filters.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={250}>
+              <AreaChart data={balance.points}>
+                <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(time: number) => format(new Date(time), spansYears ? 'MMM yy' : 'MMM d')}
+                  stroke={textColor}
+                  fontSize={12}
+                />
+                <YAxis stroke={textColor} fontSize={12} tickFormatter={formatTick} width={72} />
+                <Tooltip
+                  labelFormatter={(time: number) => format(new Date(time), 'MMM d, yyyy')}
+                  formatter={formatValue}
+                  contentStyle={tooltipStyle}
+                />
+                <Legend />
+                {balance.series.map((item, index) => (
+                  <Area
+                    key={item.key}
+                    type="monotone"
+                    dataKey={item.key}
+                    name={item.name}
+                    stackId="balance"
+                    stroke={seriesColors[index % seriesColors.length]}
+                    fill={seriesColors[index % seriesColors.length]}
+                    fillOpacity={0.35}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+
+        <div className={cardClass}>
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <h3 className={`text-xl font-bold ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+              Deposits vs Withdrawals
+            </h3>
+            <select
+              value={filters.granularity}
+              onChange={(e) => updateFilters({ granularity: e.target.value as ReportGranularity })}
+              className={selectClass}
+            >
+              <option value="week">Weekly</option>
+              <option value="month">Monthly</option>
+            </select>
+          </div>
+          <ResponsiveContainer width="100%" height={250}>
+            <BarChart data={flows}>
+              <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
+              <XAxis dataKey="label" stroke={textColor} fontSize={12} />
+              <YAxis stroke={textColor} fontSize={12} tickFormatter={formatTick} width={72} />
+              <Tooltip formatter={formatValue} contentStyle={tooltipStyle} />
+              <Legend />
+              <Bar dataKey="deposits" fill="#4cb673" radius={[8, 8, 0, 0]} name="Deposits" />
+              <Bar dataKey="withdrawals" fill="#ef4444" radius={[8, 8, 0, 0]} name="Withdrawals" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
       </div>
 
-      <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-3xl p-6 shadow-lg`}>
-        <h3 className={`text-xl font-bold mb-4 ${darkMode ? 'text-white' : 'text-gray-800'}`}>
+      <div className={cardClass}>
+        <h3 className={titleClass}>
           Jar Comparison
         </h3>
         <ResponsiveContainer width="100%" height={250}>
-          <BarChart data={data}>
+          <BarChart data={comparison}>
             <CartesianGrid strokeDasharray="3 3" stroke={gridColor} />
             <XAxis dataKey="name" stroke={textColor} fontSize={12} />
-            <YAxis stroke={textColor} fontSize={12} />
-            <Tooltip 
-              contentStyle={{ 
-                backgroundColor: darkMode ? '#1f2937' : '#ffffff',
-                border: `1px solid ${gridColor}`,
-                borderRadius: '8px'
-              }}
-            />
+            <YAxis stroke={textColor} fontSize={12} tickFormatter={formatTick} width={72} />
+            <Tooltip formatter={formatValue} contentStyle={tooltipStyle} />
             <Legend />
             <Bar dataKey="saved" fill="#4cb673" radius={[8, 8, 0, 0]} name="Saved" />
             <Bar dataKey="withdrawn" fill="#ef4444" radius={[8, 8, 0, 0]} name="Withdrawn" />
           </BarChart>
         </ResponsiveContainer>
       </div>
+
+      {reasons.length > 0 && (
+        <WithdrawalReasonsChart data={reasons} darkMode={darkMode} currency={currency} compact={compact} />
+      )}
+
+      <SavingsHeatmap jars={filteredJars} darkMode={darkMode} settings={settings} compact={compact} />
     </div>
   );
 };
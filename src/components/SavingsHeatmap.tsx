@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { CalendarDays } from 'lucide-react';
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { Jar } from '@/lib/domain';
+import { CurrencyPreferences, formatMoney, toCurrencyCode } from '@/lib/currency';
+import { DepositDay, getDayTransactions, getDepositDays } from '@/lib/reports';
+import { toDateKey } from '@/lib/recurring';
+import { WITHDRAWAL_REASONS } from '@/lib/withdrawals';
+
+interface SavingsHeatmapProps {
+  /** A single jar is shown in its own currency, several in the base currency */
+  jars: Jar[];
+  darkMode: boolean;
+  settings: CurrencyPreferences;
+  compact?: boolean;
+}
+
+const levelClasses: Record<DepositDay['level'], string> = {
+  1: 'bg-green-200 text-green-900 hover:bg-green-300',
+  2: 'bg-green-300 text-green-900 hover:bg-green-400',
+  3: 'bg-green-500 text-white hover:bg-green-600',
+  4: 'bg-green-700 text-white hover:bg-green-800',
+};
+
+const levels = Object.keys(levelClasses).map(Number) as DepositDay['level'][];
+
+const SavingsHeatmap = ({ jars, darkMode, settings, compact = true }: SavingsHeatmapProps) => {
+  const [selectedDay, setSelectedDay] = useState<Date | null>(null);
+
+  const currency = jars.length === 1 ? toCurrencyCode(jars[0].currency) : settings.baseCurrency;
+  const days = getDepositDays(jars, currency, settings);
+  const transactions = selectedDay ? getDayTransactions(jars, selectedDay) : [];
+  const textColor = darkMode ? 'text-white' : 'text-gray-800';
+  const textSecondary = darkMode ? 'text-gray-400' : 'text-gray-600';
+
+  // One modifier per shade, matched by calendar day
+  const modifiers = Object.fromEntries(
+    levels.map(level => [`level${level}`, (date: Date) => days.get(toDateKey(date))?.level === level])
+  );
+  const modifiersClassNames = Object.fromEntries(levels.map(level => [`level${level}`, levelClasses[level]]));
+
+  const describeDay = (date: Date) => {
+    const day = days.get(toDateKey(date));
+    return day
+      ? `${formatMoney(day.amount, currency, { compact })} in ${day.count} deposit${day.count === 1 ? '' : 's'}`
+      : 'No deposits';
+  };
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-3xl p-6 shadow-lg mt-6`}>
+      <h3 className={`text-xl font-bold mb-2 ${textColor} flex items-center gap-2`}>
+        <CalendarDays size={20} className="text-green-600" />
+        Saving Activity
+      </h3>
+      <p className={`text-sm ${textSecondary}`}>Darker days saved more. Tap a day to see what happened.</p>
+
+      <Calendar
+        mode="single"
+        selected={selectedDay ?? undefined}
+        onDayClick={setSelectedDay}
+        numberOfMonths={3}
+        pagedNavigation
+        defaultMonth={startOfMonth(subMonths(new Date(), 2))}
+        toDate={new Date()}
+        showOutsideDays={false}
+        modifiers={modifiers}
+        modifiersClassNames={modifiersClassNames}
+        classNames={{ day_today: 'font-bold underline', day_selected: 'ring-2 ring-primary' }}
+        className={`px-0 ${textColor}`}
+      />
+
+      <div className={`flex items-center justify-end gap-1 text-xs ${textSecondary}`}>
+        Less
+        {levels.map(level => (
+          <span key={level} className={`w-3 h-3 rounded-sm ${levelClasses[level]}`} />
+        ))}
+        More
+      </div>
+
+      <Dialog open={selectedDay !== null} onOpenChange={(open) => !open && setSelectedDay(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{selectedDay && format(selectedDay, 'EEEE, MMM d, yyyy')}</DialogTitle>
+            <DialogDescription>{selectedDay && describeDay(selectedDay)}</DialogDescription>
+          </DialogHeader>
+          {transactions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing happened in {jars.length === 1 ? 'this jar' : 'your jars'} on this day.</p>
+          ) : (
+            <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+              {transactions.map(({ jar, record }) => (
+                <div key={`${jar.id}-${record.id}`} className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <p className="text-sm font-medium">{jar.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(record.date), 'p')}
+                      {record.automatic && ' · Automatic deposit'}
+                      {record.rolloverFrom !== undefined && ' · Rolled over'}
+                      {record.fromUnallocated && ' · From unallocated'}
+                      {record.type === 'overflow' && ' · Surplus moved out'}
+                      {record.reason && ` · ${WITHDRAWAL_REASONS[record.reason]}`}
+                    </p>
+                  </div>
+                  <p className={`font-bold ${record.type === 'saved' ? 'text-green-600' : record.type === 'overflow' ? 'text-amber-600' : 'text-red-600'}`}>
+                    {formatMoney(record.type === 'saved' ? record.amount : -record.amount, jar.currency, { compact, signed: true })}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SavingsHeatmap;
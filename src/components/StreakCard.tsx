@@ -0,0 +1,78 @@
+import { Flame, Snowflake, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { Jar, StreakCadence } from '@/lib/domain';
+import { getStreakInfo } from '@/lib/streaks';
+
+interface StreakCardProps {
+  jar: Jar;
+  darkMode: boolean;
+  onCadenceChange: (cadence: StreakCadence) => void;
+}
+
+const periodNames: Record<StreakCadence, { singular: string; plural: string }> = {
+  daily: { singular: 'day', plural: 'days' },
+  weekly: { singular: 'week', plural: 'weeks' },
+  monthly: { singular: 'month', plural: 'months' },
+};
+
+const StreakCard = ({ jar, darkMode, onCadenceChange }: StreakCardProps) => {
+  const streak = getStreakInfo(jar);
+  const names = periodNames[streak.cadence];
+  const textColor = darkMode ? 'text-white' : 'text-gray-800';
+  const textSecondary = darkMode ? 'text-gray-400' : 'text-gray-600';
+  const tileBg = darkMode ? 'bg-gray-800' : 'bg-white';
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-700' : 'bg-gradient-to-br from-orange-50 to-red-50'} rounded-2xl p-4 mb-6`}>
+      <div className="flex items-center justify-between mb-3 gap-2">
+        <h3 className={`text-lg font-bold ${textColor} flex items-center gap-2`}>
+          <Flame size={18} className="text-orange-500" />
+          Saving Streak
+        </h3>
+        <select
+          value={streak.cadence}
+          onChange={(e) => onCadenceChange(e.target.value as StreakCadence)}
+          className={`px-3 py-1.5 text-sm rounded-xl border-2 border-gray-300 focus:border-primary focus:outline-none ${
+            darkMode ? 'bg-gray-800 text-white' : 'bg-white'
+          }`}
+        >
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className={`${tileBg} rounded-xl p-3 text-center`}>
+          <p className={`text-xs ${textSecondary} mb-1`}>Current</p>
+          <p className="text-2xl font-bold text-orange-500">
+            {streak.current} <span className="text-sm font-normal">{streak.current === 1 ? names.singular : names.plural}</span>
+          </p>
+        </div>
+        <div className={`${tileBg} rounded-xl p-3 text-center`}>
+          <p className={`text-xs ${textSecondary} mb-1`}>Longest</p>
+          <p className={`text-2xl font-bold ${textColor}`}>
+            {streak.longest} <span className="text-sm font-normal">{streak.longest === 1 ? names.singular : names.plural}</span>
+          </p>
+        </div>
+      </div>
+
+      {streak.atRisk && (
+        <p className="text-sm text-red-600 font-semibold mt-3 flex items-center gap-2">
+          <AlertTriangle size={14} />
+          Streak at risk: save before {format(streak.periodEnd, 'MMM d')} to keep it going
+        </p>
+      )}
+      {streak.current > 0 && (
+        <p className={`text-xs ${textSecondary} mt-2 flex items-center gap-1.5`}>
+          <Snowflake size={12} className="text-sky-500" />
+          {streak.freezeUsed
+            ? `Streak freeze used: the next missed ${names.singular} ends the streak`
+            : `Streak freeze ready: one missed ${names.singular} won't break your streak`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default StreakCard;
@@ -0,0 +1,263 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { History, Search } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useVirtualList } from "@/hooks/use-virtual-list";
+import { Category, Jar, TransactionRecord } from "@/lib/domain";
+import { CurrencyPreferences, formatMoney, parseAmount } from "@/lib/currency";
+import {
+  TRANSACTION_SORT_LABELS,
+  TRANSACTION_TYPE_LABELS,
+  TransactionFilters,
+  TransactionRow,
+  TransactionSort,
+  TransactionTypeFilter,
+  defaultTransactionFilters,
+  filterTransactions,
+  listTransactions,
+  sortTransactions,
+} from "@/lib/transactions";
+import { WITHDRAWAL_REASONS } from "@/lib/withdrawals";
+
+interface TransactionHistoryProps {
+  jars: Jar[];
+  categories: Category[];
+  /** Amount filters are entered in the base currency */
+  settings: CurrencyPreferences;
+  compact?: boolean;
+}
+
+const ROW_HEIGHT = 64;
+// Select values can't be empty strings, so "any" stands in for no filter
+const ANY = "any";
+
+const amountClass = (record: TransactionRecord) =>
+  record.type === "saved" ? "text-green-600" : record.type === "overflow" ? "text-amber-600" : "text-red-600";
+
+const describeRecord = (record: TransactionRecord) =>
+  [
+    TRANSACTION_TYPE_LABELS[record.type],
+    record.automatic ? "Automatic" : undefined,
+    record.reason ? WITHDRAWAL_REASONS[record.reason] : undefined,
+    record.note,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const TransactionList = ({ rows, compact }: { rows: TransactionRow[]; compact: boolean }) => {
+  const { containerRef, onScroll, start, end, offsetTop, totalHeight } = useVirtualList(rows.length, ROW_HEIGHT);
+
+  return (
+    <div ref={containerRef} onScroll={onScroll} className="h-[45vh] overflow-y-auto rounded-lg border">
+      <div style={{ height: totalHeight, position: "relative" }}>
+        <div style={{ transform: `translateY(${offsetTop}px)` }}>
+          {rows.slice(start, end).map(({ jar, record, time }) => (
+            <div
+              key={`${jar.id}-${record.id}`}
+              style={{ height: ROW_HEIGHT }}
+              className="flex items-center justify-between gap-3 border-b px-3"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {jar.name}
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">{format(time, "MMM d, yyyy p")}</span>
+                </p>
+                <p className="text-xs text-muted-foreground truncate">{describeRecord(record)}</p>
+              </div>
+              <p className={`text-sm font-bold whitespace-nowrap ${amountClass(record)}`}>
+                {formatMoney(record.type === "saved" ? record.amount : -record.amount, jar.currency, {
+                  compact,
+                  signed: true,
+                })}
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const TransactionHistory = ({ jars, categories, settings, compact = true }: TransactionHistoryProps) => {
+  const [open, setOpen] = useState(false);
+  const [filters, setFilters] = useState<TransactionFilters>(defaultTransactionFilters);
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [sort, setSort] = useState<TransactionSort>("date-desc");
+
+  const updateFilters = (changes: Partial<TransactionFilters>) => setFilters((current) => ({ ...current, ...changes }));
+
+  // The list is only built while the dialog is open so the header stays cheap to render, and is
+  // memoized so scrolling the virtual list doesn't flatten, filter and sort the whole history again
+  const all = useMemo(() => (open ? listTransactions(jars, settings) : []), [open, jars, settings]);
+  const rows = useMemo(
+    () =>
+      sortTransactions(
+        filterTransactions(all, {
+          ...filters,
+          minAmount: minAmount ? parseAmount(minAmount, settings.baseCurrency) : null,
+          maxAmount: maxAmount ? parseAmount(maxAmount, settings.baseCurrency) : null,
+        }),
+        sort
+      ),
+    [all, filters, minAmount, maxAmount, settings.baseCurrency, sort]
+  );
+  const jarOptions = jars.filter((jar) => filters.categoryId === null || jar.categoryId === filters.categoryId);
+
+  const resetFilters = () => {
+    setFilters(defaultTransactionFilters());
+    setMinAmount("");
+    setMaxAmount("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Transaction history">
+          <History className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Transaction History</DialogTitle>
+          <DialogDescription>Every deposit and withdrawal across your jars.</DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-3 py-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search notes and reasons"
+              value={filters.query}
+              onChange={(e) => updateFilters({ query: e.target.value })}
+              className="pl-9"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <Select value={filters.type} onValueChange={(value) => updateFilters({ type: value as TransactionTypeFilter })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {(Object.keys(TRANSACTION_TYPE_LABELS) as TransactionRecord["type"][]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {TRANSACTION_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.categoryId === null ? ANY : String(filters.categoryId)}
+              onValueChange={(value) => updateFilters({ categoryId: value === ANY ? null : Number(value), jarId: null })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All categories</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={String(category.id)}>
+                    {category.icon} {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.jarId === null ? ANY : String(filters.jarId)}
+              onValueChange={(value) => updateFilters({ jarId: value === ANY ? null : Number(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All jars</SelectItem>
+                {jarOptions.map((jar) => (
+                  <SelectItem key={jar.id} value={String(jar.id)}>
+                    {jar.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sort} onValueChange={(value) => setSort(value as TransactionSort)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TRANSACTION_SORT_LABELS) as TransactionSort[]).map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {TRANSACTION_SORT_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <Input
+              inputMode="decimal"
+              placeholder={`Min (${settings.baseCurrency})`}
+              value={minAmount}
+              onChange={(e) => setMinAmount(e.target.value)}
+            />
+            <Input
+              inputMode="decimal"
+              placeholder={`Max (${settings.baseCurrency})`}
+              value={maxAmount}
+              onChange={(e) => setMaxAmount(e.target.value)}
+            />
+            <Input
+              type="date"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+              aria-label="From date"
+            />
+            <Input
+              type="date"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+              aria-label="To date"
+            />
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              {rows.length === all.length
+                ? `${all.length} ${all.length === 1 ? "transaction" : "transactions"}`
+                : `${rows.length} of ${all.length} transactions`}
+            </span>
+            <Button variant="ghost" size="sm" onClick={resetFilters}>
+              Clear filters
+            </Button>
+          </div>
+
+          {rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              {all.length === 0 ? "No transactions yet." : "No transactions match these filters."}
+            </p>
+          ) : (
+            <TransactionList rows={rows} compact={compact} />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,138 @@
+import { formatDistanceToNow } from "date-fns";
+import { RotateCcw, Trash2, X } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Category, Jar } from "@/lib/domain";
+import {
+  TRASH_KIND_LABELS,
+  TRASH_RETENTION_OPTIONS,
+  TrashEntry,
+  getRestoreBlocker,
+  getTrashEntryLabel,
+} from "@/lib/trash";
+
+interface TrashBinProps {
+  trash: TrashEntry[];
+  retentionDays: number;
+  /** Current jars and categories, used to tell whether an entry can be restored */
+  jars: Jar[];
+  categories: Category[];
+  onRestore: (entry: TrashEntry) => void;
+  onDeleteForever: (entryId: number) => void;
+  onEmpty: () => void;
+  onRetentionChange: (days: number) => void;
+}
+
+export const TrashBin = ({
+  trash,
+  retentionDays,
+  jars,
+  categories,
+  onRestore,
+  onDeleteForever,
+  onEmpty,
+  onRetentionChange,
+}: TrashBinProps) => {
+  const entries = [...trash].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  const retentionOptions = TRASH_RETENTION_OPTIONS.includes(retentionDays)
+    ? TRASH_RETENTION_OPTIONS
+    : [...TRASH_RETENTION_OPTIONS, retentionDays].sort((a, b) => a - b);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="relative">
+          <Trash2 className="h-4 w-4" />
+          {trash.length > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-primary text-primary-foreground text-[10px] leading-[1.1rem]">
+              {trash.length}
+            </span>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted jars, categories and notes stay here for {retentionDays} days before they are removed for good.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-4 py-4">
+          <div className="flex items-center justify-between gap-2">
+            <Label>Keep Deleted Items For</Label>
+            <Select value={String(retentionDays)} onValueChange={(value) => onRetentionChange(Number(value))}>
+              <SelectTrigger className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {retentionOptions.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days} days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">The trash is empty.</p>
+          ) : (
+            <div className="flex flex-col gap-2">
+              {entries.map((entry) => {
+                const blocker = getRestoreBlocker(entry, jars, categories);
+                return (
+                  <div key={entry.id} className="flex items-center gap-2 rounded-lg border p-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{getTrashEntryLabel(entry)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {TRASH_KIND_LABELS[entry.kind]}
+                        {entry.kind === "category" && entry.jars.length > 0 &&
+                          ` with ${entry.jars.length} ${entry.jars.length === 1 ? "jar" : "jars"}`}
+                        {" · deleted "}
+                        {formatDistanceToNow(new Date(entry.deletedAt), { addSuffix: true })}
+                      </p>
+                      {blocker && <p className="text-xs text-destructive">{blocker}</p>}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!!blocker}
+                      onClick={() => onRestore(entry)}
+                      title="Restore"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => onDeleteForever(entry.id)} title="Delete forever">
+                      <X className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {entries.length > 0 && (
+            <Button variant="destructive" onClick={onEmpty} className="w-full">
+              Empty Trash
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,74 @@
+import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from 'recharts';
+import type { ReasonBreakdown } from '@/lib/withdrawals';
+import { formatMoney } from '@/lib/currency';
+
+interface WithdrawalReasonsChartProps {
+  data: ReasonBreakdown[];
+  darkMode: boolean;
+  /** Currency the amounts are expressed in */
+  currency?: string;
+  compact?: boolean;
+}
+
+const reasonColors: Record<ReasonBreakdown['reason'], string> = {
+  emergency: '#ef4444',
+  bills: '#f97316',
+  planned: '#3c78f0',
+  treat: '#a855f7',
+  impulse: '#eab308',
+  other: '#14b8a6',
+  unspecified: '#9ca3af',
+};
+
+const WithdrawalReasonsChart = ({ data, darkMode, currency = 'USD', compact = true }: WithdrawalReasonsChartProps) => {
+  const textColor = darkMode ? 'text-white' : 'text-gray-800';
+  const textSecondary = darkMode ? 'text-gray-400' : 'text-gray-600';
+  const gridColor = darkMode ? '#374151' : '#e5e7eb';
+  const total = data.reduce((sum, item) => sum + item.amount, 0);
+
+  return (
+    <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-3xl p-6 shadow-lg mt-6`}>
+      <h3 className={`text-xl font-bold mb-4 ${textColor}`}>
+        Why You Withdrew
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-center">
+        <ResponsiveContainer width="100%" height={220}>
+          <PieChart>
+            <Pie data={data} dataKey="amount" nameKey="label" innerRadius={55} outerRadius={90} paddingAngle={2}>
+              {data.map(item => (
+                <Cell key={item.reason} fill={reasonColors[item.reason]} />
+              ))}
+            </Pie>
+            <Tooltip
+              formatter={(value: number) => formatMoney(value, currency, { compact })}
+              contentStyle={{
+                backgroundColor: darkMode ? '#1f2937' : '#ffffff',
+                border: `1px solid ${gridColor}`,
+                borderRadius: '8px'
+              }}
+            />
+          </PieChart>
+        </ResponsiveContainer>
+        <div className="space-y-2">
+          {data.map(item => (
+            <div key={item.reason} className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: reasonColors[item.reason] }} />
+                <span className={`text-sm ${textColor}`}>{item.label}</span>
+                <span className={`text-xs ${textSecondary}`}>×{item.count}</span>
+              </div>
+              <div className="text-right">
+                <span className={`text-sm font-semibold ${textColor}`}>{formatMoney(item.amount, currency, { compact })}</span>
+                <span className={`text-xs ${textSecondary} ml-2`}>
+                  {total > 0 ? Math.round((item.amount / total) * 100) : 0}%
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WithdrawalReasonsChart;
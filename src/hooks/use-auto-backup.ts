@@ -0,0 +1,97 @@
+import * as React from "react";
+import { BackupData } from "@/lib/backup";
+import { storage } from "@/lib/storage";
+import {
+  AutoBackupSettings,
+  StoredBackup,
+  defaultAutoBackupSettings,
+  getNextAutoBackup,
+  isAutoBackupDue,
+  listStoredBackups,
+  writeAutoBackup,
+} from "@/lib/autoBackup";
+
+/**
+ * Runs automatic backups of `data` while the app is open: on their schedule, or once enough
+ * changes have piled up. Nothing is counted or written until `ready` (the app data has loaded).
+ * Settings and the change count are persisted, so a schedule carries over between launches.
+ */
+function useAutoBackup(data: BackupData, ready: boolean) {
+  const [settings, setSettings] = React.useState<AutoBackupSettings>(defaultAutoBackupSettings);
+  const [loaded, setLoaded] = React.useState(false);
+  const [backups, setBackups] = React.useState<StoredBackup[]>([]);
+
+  // Backups always write the latest data and settings, even from a timer armed on an earlier render
+  const dataRef = React.useRef(data);
+  dataRef.current = data;
+  const keepRef = React.useRef(settings.keep);
+  keepRef.current = settings.keep;
+  const runningRef = React.useRef(false);
+  const seenRef = React.useRef<unknown[] | null>(null);
+
+  React.useEffect(() => {
+    storage.loadAutoBackupSettings().then((stored) => {
+      setSettings(stored);
+      setLoaded(true);
+    });
+    listStoredBackups().then(setBackups);
+  }, []);
+
+  React.useEffect(() => {
+    if (loaded) {
+      storage.saveAutoBackupSettings(settings);
+    }
+  }, [settings, loaded]);
+
+  const refreshBackups = React.useCallback(() => listStoredBackups().then(setBackups), []);
+
+  const backUpNow = React.useCallback(async () => {
+    if (runningRef.current) return;
+    runningRef.current = true;
+    try {
+      const now = new Date();
+      await writeAutoBackup(dataRef.current, keepRef.current, now);
+      setSettings((current) => ({ ...current, lastBackupAt: now.toISOString(), changesSinceBackup: 0 }));
+      setBackups(await listStoredBackups());
+    } finally {
+      runningRef.current = false;
+    }
+  }, []);
+
+  // Count changes to the data; the load itself isn't one
+  React.useEffect(() => {
+    if (!ready) return;
+    const previous = seenRef.current;
+    seenRef.current = [data.jars, data.categories, data.notes, data.unallocated, data.trash];
+    if (!previous) return;
+    setSettings((current) =>
+      current.enabled && current.frequency === "changes"
+        ? { ...current, changesSinceBackup: current.changesSinceBackup + 1 }
+        : current
+    );
+  }, [ready, data.jars, data.categories, data.notes, data.unallocated, data.trash]);
+
+  React.useEffect(() => {
+    if (!ready || !loaded || !settings.enabled) return;
+    const run = () => backUpNow().catch((error) => console.error("Automatic backup failed:", error));
+    if (settings.frequency === "changes") {
+      if (isAutoBackupDue(settings)) run();
+      return;
+    }
+    // setTimeout can't wait longer than ~24.8 days; the effect re-arms after each backup
+    const delay = Math.min(Math.max(getNextAutoBackup(settings)!.getTime() - Date.now(), 0), 2 ** 31 - 1);
+    const timer = setTimeout(run, delay);
+    return () => clearTimeout(timer);
+  }, [settings, ready, loaded, backUpNow]);
+
+  const updateSettings = React.useCallback(
+    (changes: Partial<AutoBackupSettings>) => setSettings((current) => ({ ...current, ...changes })),
+    []
+  );
+
+  return { settings, updateSettings, backups, refreshBackups, backUpNow };
+}
+
+type AutoBackup = ReturnType<typeof useAutoBackup>;
+
+export { useAutoBackup, type AutoBackup };
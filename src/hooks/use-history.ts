@@ -0,0 +1,72 @@
+import * as React from "react";
+
+// Older steps are dropped once the stack grows past this
+const HISTORY_LIMIT = 50;
+
+export interface HistoryEntry<T> {
+  /** What the step did, e.g. "Added $50 to Vacation" */
+  label: string;
+  /** State as it was before the step (on the undo stack) or after it (on the redo stack) */
+  snapshot: T;
+}
+
+/**
+ * Undo/redo stacks over a snapshot of app state.
+ * Call `record(label)` right before an undoable change; `undo` and `redo` hand the
+ * snapshot to `restore` and return the label of the step, or null if there was none.
+ * Changes the app makes on its own go through `patch` instead, so they also land in every
+ * stored snapshot and undo only ever reverts user steps.
+ */
+function useHistory<T>(current: T, restore: (snapshot: T) => void, limit = HISTORY_LIMIT) {
+  const [past, setPast] = React.useState<HistoryEntry<T>[]>([]);
+  const [future, setFuture] = React.useState<HistoryEntry<T>[]>([]);
+
+  // Always read the latest state, even from callbacks created on an earlier render
+  const currentRef = React.useRef(current);
+  currentRef.current = current;
+  const restoreRef = React.useRef(restore);
+  restoreRef.current = restore;
+
+  const record = React.useCallback(
+    (label: string) => {
+      setPast((entries) => [...entries, { label, snapshot: currentRef.current }].slice(-limit));
+      setFuture([]);
+    },
+    [limit]
+  );
+
+  const patch = React.useCallback((update: (snapshot: T) => T) => {
+    const apply = (entries: HistoryEntry<T>[]) => entries.map((entry) => ({ ...entry, snapshot: update(entry.snapshot) }));
+    setPast(apply);
+    setFuture(apply);
+  }, []);
+
+  const undo = React.useCallback(() => {
+    const entry = past[past.length - 1];
+    if (!entry) return null;
+    setPast(past.slice(0, -1));
+    setFuture([...future, { label: entry.label, snapshot: currentRef.current }]);
+    restoreRef.current(entry.snapshot);
+    return entry.label;
+  }, [past, future]);
+
+  const redo = React.useCallback(() => {
+    const entry = future[future.length - 1];
+    if (!entry) return null;
+    setFuture(future.slice(0, -1));
+    setPast([...past, { label: entry.label, snapshot: currentRef.current }]);
+    restoreRef.current(entry.snapshot);
+    return entry.label;
+  }, [past, future]);
+
+  return {
+    record,
+    patch,
+    undo,
+    redo,
+    undoLabel: past[past.length - 1]?.label ?? null,
+    redoLabel: future[future.length - 1]?.label ?? null,
+  };
+}
+
+export { useHistory };
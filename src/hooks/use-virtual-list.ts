@@ -0,0 +1,51 @@
+import * as React from "react";
+
+// Rows rendered above and below the visible window so fast scrolling doesn't flash blank space
+const OVERSCAN = 6;
+
+/**
+ * Windowing for long lists with a fixed row height. Attach `containerRef` and `onScroll`
+ * to the scrolling element, give its content a height of `totalHeight`, and render only
+ * rows `start` to `end` (exclusive), offset by `offsetTop`.
+ */
+function useVirtualList(count: number, rowHeight: number, overscan = OVERSCAN) {
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = React.useState(0);
+  const [viewportHeight, setViewportHeight] = React.useState(0);
+
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // A shorter list (e.g. after filtering) may leave the old scroll position past the end
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (container && container.scrollTop > count * rowHeight) {
+      container.scrollTop = 0;
+      setScrollTop(0);
+    }
+  }, [count, rowHeight]);
+
+  const onScroll = React.useCallback((event: React.UIEvent<HTMLElement>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  return {
+    containerRef,
+    onScroll,
+    start,
+    end,
+    offsetTop: start * rowHeight,
+    totalHeight: count * rowHeight,
+  };
+}
+
+export { useVirtualList };
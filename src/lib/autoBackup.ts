@@ -0,0 +1,127 @@
+/**
+ * Automatic backups on a schedule or after a number of changes.
+ * Files are written with Capacitor Filesystem to a folder in the app's private data directory
+ * (IndexedDB on the web), so unencrypted copies never land where other apps can read them.
+ * Only the newest `keep` files are kept; any of them can be restored from the backup dialog.
+ */
+import { Directory, Encoding, Filesystem } from '@capacitor/filesystem';
+import { BackupData, createBackup } from './backup';
+
+export const AUTO_BACKUP_FOLDER = 'backups';
+
+export type AutoBackupFrequency = 'daily' | 'weekly' | 'changes';
+
+export const AUTO_BACKUP_FREQUENCIES: Record<AutoBackupFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  changes: 'After a number of changes',
+};
+
+export const AUTO_BACKUP_KEEP_OPTIONS = [3, 5, 10, 20];
+
+export interface AutoBackupSettings {
+  enabled: boolean;
+  frequency: AutoBackupFrequency;
+  /** Changes before the next backup, for the 'changes' frequency */
+  changeThreshold: number;
+  /** How many backup files to keep */
+  keep: number;
+  lastBackupAt: string | null;
+  changesSinceBackup: number;
+}
+
+export interface StoredBackup {
+  fileName: string;
+  createdAt: Date;
+  size: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INTERVALS: Record<Exclude<AutoBackupFrequency, 'changes'>, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+// Timestamps in the name keep files unique and sort them oldest first
+const FILE_PATTERN = /^jarify-auto-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)\.json$/;
+
+export const defaultAutoBackupSettings = (): AutoBackupSettings => ({
+  enabled: false,
+  frequency: 'daily',
+  changeThreshold: 20,
+  keep: 5,
+  lastBackupAt: null,
+  changesSinceBackup: 0,
+});
+
+/**
+ * When the next scheduled backup is due; null for change-based backups, which have no date.
+ * A schedule that has never run is due straight away.
+ */
+export const getNextAutoBackup = (settings: AutoBackupSettings): Date | null => {
+  if (!settings.enabled || settings.frequency === 'changes') return null;
+  if (!settings.lastBackupAt) return new Date(0);
+  return new Date(new Date(settings.lastBackupAt).getTime() + INTERVALS[settings.frequency]);
+};
+
+export const isAutoBackupDue = (settings: AutoBackupSettings, now: Date = new Date()): boolean => {
+  if (!settings.enabled) return false;
+  if (settings.frequency === 'changes') return settings.changesSinceBackup >= settings.changeThreshold;
+  return getNextAutoBackup(settings)!.getTime() <= now.getTime();
+};
+
+const fileNameFor = (date: Date) => `jarify-auto-${date.toISOString().replace(/[:.]/g, '-')}.json`;
+
+const dateFromFileName = (fileName: string): Date | null => {
+  const match = FILE_PATTERN.exec(fileName);
+  if (!match) return null;
+  const [date, time] = match[1].split('T');
+  const [hours, minutes, seconds, millis] = time.replace('Z', '').split('-');
+  return new Date(`${date}T${hours}:${minutes}:${seconds}.${millis}Z`);
+};
+
+/**
+ * Automatic backups on this device, newest first
+ */
+export const listStoredBackups = async (): Promise<StoredBackup[]> => {
+  try {
+    const { files } = await Filesystem.readdir({ path: AUTO_BACKUP_FOLDER, directory: Directory.Data });
+    return files
+      .flatMap(file => {
+        const createdAt = file.type === 'file' ? dateFromFileName(file.name) : null;
+        return createdAt ? [{ fileName: file.name, createdAt, size: file.size }] : [];
+      })
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  } catch {
+    // The folder doesn't exist until the first backup
+    return [];
+  }
+};
+
+export const readStoredBackup = async (fileName: string): Promise<string> => {
+  const { data } = await Filesystem.readFile({
+    path: `${AUTO_BACKUP_FOLDER}/${fileName}`,
+    directory: Directory.Data,
+    encoding: Encoding.UTF8,
+  });
+  return typeof data === 'string' ? data : await data.text();
+};
+
+/**
+ * Write a backup file, then delete the oldest ones beyond `keep`
+ */
+export const writeAutoBackup = async (data: BackupData, keep: number, now: Date = new Date()): Promise<void> => {
+  const backup = await createBackup(data, now);
+  await Filesystem.writeFile({
+    path: `${AUTO_BACKUP_FOLDER}/${fileNameFor(now)}`,
+    data: JSON.stringify(backup),
+    directory: Directory.Data,
+    encoding: Encoding.UTF8,
+    recursive: true,
+  });
+
+  const stale = (await listStoredBackups()).slice(Math.max(keep, 1));
+  await Promise.all(
+    stale.map(file => Filesystem.deleteFile({ path: `${AUTO_BACKUP_FOLDER}/${file.fileName}`, directory: Directory.Data }))
+  );
+};
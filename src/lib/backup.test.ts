@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { BackupData, createBackup, diffBackup, getMergeNotes, mergeBackup, parseBackup } from './backup';
+import { Jar, TransactionRecord } from './domain';
+import { createTrashEntry } from './trash';
+
+const record = (id: number, amount: number): TransactionRecord => ({
+  id,
+  type: 'saved',
+  amount,
+  date: new Date(2024, 2, id, 12),
+});
+
+const jar = (id: number, records: TransactionRecord[] = [], overrides: Partial<Jar> = {}): Jar => ({
+  id,
+  name: `Jar ${id}`,
+  target: 100000,
+  saved: records.reduce((sum, r) => sum + r.amount, 0),
+  streak: 0,
+  withdrawn: 0,
+  records,
+  currency: 'USD',
+  categoryId: 1,
+  ...overrides,
+});
+
+const data = (overrides: Partial<BackupData> = {}): BackupData => ({
+  jars: [],
+  categories: [{ id: 1, name: 'Travel', icon: '✈️' }],
+  notes: [],
+  unallocated: [],
+  trash: [],
+  settings: { darkMode: false, currency: null, trashRetention: 30 },
+  ...overrides,
+});
+
+describe('parseBackup', () => {
+  it('reads back what createBackup wrote, dates included', async () => {
+    const original = data({ jars: [jar(1, [record(1, 500)])] });
+    const parsed = await parseBackup(JSON.stringify(await createBackup(original)));
+    expect(parsed.legacy).toBe(false);
+    expect(parsed.data.jars[0].records![0].date).toEqual(original.jars[0].records![0].date);
+    expect(parsed.data).toEqual(original);
+  });
+
+  it('rejects a section that no longer matches its checksum', async () => {
+    const backup = await createBackup(data({ jars: [jar(1, [record(1, 500)])] }));
+    backup.data.jars[0].saved = 999999;
+    await expect(parseBackup(JSON.stringify(backup))).rejects.toThrow(/jars don't match their checksum/);
+  });
+
+  it('rejects a section without a checksum', async () => {
+    const backup = await createBackup(data());
+    delete (backup.checksums as Partial<typeof backup.checksums>).notes;
+    await expect(parseBackup(JSON.stringify(backup))).rejects.toThrow(/notes have no checksum/);
+  });
+
+  it('refuses backups from a newer format version', async () => {
+    const backup = { ...(await createBackup(data())), formatVersion: 99 };
+    await expect(parseBackup(JSON.stringify(backup))).rejects.toThrow(/newer version/);
+  });
+
+  it('rejects files that are not backups', async () => {
+    await expect(parseBackup('not json')).rejects.toThrow("This file isn't valid JSON");
+    await expect(parseBackup('{"hello":"world"}')).rejects.toThrow("This file isn't a Jarify backup");
+  });
+});
+
+describe('diffBackup', () => {
+  it('counts records by jar and id', () => {
+    const current = data({ jars: [jar(1, [record(1, 500)])] });
+    const incoming = data({ jars: [jar(1, [record(1, 500), record(2, 700)])] });
+    expect(diffBackup(current, incoming).records).toEqual({ added: 1, changed: 0, unchanged: 1, removed: 0 });
+  });
+});
+
+describe('mergeBackup', () => {
+  it("adds the backup's records to a jar and recomputes its balance", () => {
+    const merged = mergeBackup(
+      data({ jars: [jar(1, [record(1, 500)])] }),
+      data({ jars: [jar(1, [record(1, 9999), record(2, 700)])] })
+    );
+    expect(merged.jars[0].records!.map(r => r.amount)).toEqual([500, 700]);
+    expect(merged.jars[0].saved).toBe(1200);
+  });
+
+  it("doesn't bring back what this device has trashed", () => {
+    const trashed = jar(2);
+    const current = data({ trash: [createTrashEntry({ kind: 'jar', jar: trashed })] });
+    const merged = mergeBackup(current, data({ jars: [trashed] }));
+    expect(merged.jars).toEqual([]);
+    expect(merged.trash).toHaveLength(1);
+  });
+
+  it("leaves out the backup's trash entries for items that are live here", () => {
+    const live = jar(3);
+    const incoming = data({ trash: [createTrashEntry({ kind: 'jar', jar: live })] });
+    expect(mergeBackup(data({ jars: [live] }), incoming).trash).toEqual([]);
+  });
+
+  it('moves jars whose category is gone after the merge to the first remaining category', () => {
+    const current = data({ categories: [{ id: 5, name: 'Home', icon: '🏠' }] });
+    const incoming = data({ jars: [jar(4, [], { categoryId: 1 })] });
+    expect(mergeBackup(current, incoming).jars[0].categoryId).toBe(1);
+
+    const trashedCategory = data({
+      categories: [{ id: 5, name: 'Home', icon: '🏠' }],
+      trash: [createTrashEntry({ kind: 'category', category: { id: 1, name: 'Travel', icon: '✈️' }, jars: [] })],
+    });
+    expect(mergeBackup(trashedCategory, incoming).jars[0].categoryId).toBe(5);
+    expect(getMergeNotes(trashedCategory, incoming)).toMatchObject({ movedJars: 1, skippedJars: 0 });
+  });
+
+  it("doesn't merge transactions into a jar whose currency changed since the backup", () => {
+    const current = data({ jars: [jar(1, [record(1, 75000)], { currency: 'JPY' })] });
+    const incoming = data({ jars: [jar(1, [record(1, 500), record(2, 700)])] });
+    expect(mergeBackup(current, incoming).jars[0].records).toHaveLength(1);
+    expect(getMergeNotes(current, incoming).currencyChanged).toEqual(['Jar 1']);
+  });
+});
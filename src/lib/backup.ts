@@ -0,0 +1,429 @@
+/**
+ * Backup documents: everything the app stores, in one typed JSON file with a format version,
+ * the app version that wrote it, per-section SHA-256 checksums and entity counts.
+ * Restoring validates the file against ./schemas, previews what would change and either
+ * replaces the current data or merges the backup into it.
+ * Files written before this format (a `localStorage` string per key) are still read.
+ */
+import { z } from 'zod';
+import { Category, Jar, Note, TransactionRecord, UnallocatedEntry, recomputeTotals } from './domain';
+import { CurrencyPreferences, toCurrencyCode } from './currency';
+import { DEFAULT_TRASH_RETENTION_DAYS, TrashEntry } from './trash';
+import {
+  Migration,
+  readEnvelope,
+  runMigrations,
+  jarMigrations,
+  categoryMigrations,
+  noteMigrations,
+  scalarMigrations,
+  unallocatedMigrations,
+} from './migrations';
+import {
+  jarSchema,
+  categorySchema,
+  noteSchema,
+  transactionRecordSchema,
+  unallocatedEntrySchema,
+  currencyPreferencesSchema,
+  trashEntrySchema,
+} from './schemas';
+
+export const BACKUP_FORMAT = 'jarify-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface BackupSettings {
+  darkMode: boolean;
+  currency: CurrencyPreferences | null;
+  trashRetention: number;
+}
+
+export interface BackupData {
+  jars: Jar[];
+  categories: Category[];
+  notes: Note[];
+  unallocated: UnallocatedEntry[];
+  trash: TrashEntry[];
+  settings: BackupSettings;
+}
+
+export type BackupSection = keyof BackupData;
+
+export interface BackupCounts {
+  jars: number;
+  records: number;
+  categories: number;
+  notes: number;
+  unallocated: number;
+  trash: number;
+}
+
+export interface BackupDocument {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  appVersion: string;
+  createdAt: string;
+  counts: BackupCounts;
+  /** Hex SHA-256 of each section of `data`, serialized with sorted keys */
+  checksums: Record<BackupSection, string>;
+  data: BackupData;
+}
+
+/** A backup file that passed validation, ready to preview */
+export interface ParsedBackup {
+  data: BackupData;
+  /** Null for files in the old format, which carry no metadata */
+  createdAt: string | null;
+  appVersion: string | null;
+  legacy: boolean;
+}
+
+export interface EntityDiff {
+  /** In the backup but not on this device */
+  added: number;
+  /** On both, with different contents */
+  changed: number;
+  unchanged: number;
+  /** On this device but not in the backup */
+  removed: number;
+}
+
+export type BackupDiff = Record<keyof BackupCounts, EntityDiff>;
+
+const BACKUP_SECTIONS: BackupSection[] = ['jars', 'categories', 'notes', 'unallocated', 'trash', 'settings'];
+
+const SECTION_LABELS: Record<BackupSection, string> = {
+  jars: 'jars',
+  categories: 'categories',
+  notes: 'notes',
+  unallocated: 'unallocated money',
+  trash: 'trash',
+  settings: 'settings',
+};
+
+// Jars travel with their records inline, so records are validated (and their dates revived) with them
+const backupJarSchema = jarSchema.extend({ records: z.array(transactionRecordSchema).optional() });
+
+const backupDataSchema = z.object({
+  jars: z.array(backupJarSchema),
+  categories: z.array(categorySchema),
+  notes: z.array(noteSchema),
+  unallocated: z.array(unallocatedEntrySchema),
+  trash: z.array(trashEntrySchema),
+  settings: z.object({
+    darkMode: z.boolean(),
+    currency: currencyPreferencesSchema.nullable(),
+    trashRetention: z.number().int().positive(),
+  }),
+});
+
+const backupHeaderSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  formatVersion: z.number().int().positive(),
+  appVersion: z.string(),
+  createdAt: z.string(),
+  checksums: z.record(z.string()),
+  data: z.record(z.unknown()),
+});
+
+// Keys of the old format and the migrations their stored strings go through
+const LEGACY_KEYS: Record<'jars' | 'categories' | 'notes' | 'unallocated' | 'darkMode' | 'currency', Migration[]> = {
+  jars: jarMigrations,
+  categories: categoryMigrations,
+  notes: noteMigrations,
+  unallocated: unallocatedMigrations,
+  darkMode: scalarMigrations,
+  currency: scalarMigrations,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * JSON with object keys sorted, so equal data always serializes (and hashes) the same way
+ * however its keys were ordered
+ */
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_, item) =>
+    isRecord(item)
+      ? Object.fromEntries(Object.keys(item).sort().map(key => [key, item[key]]))
+      : item
+  ) ?? 'null';
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .slice(0, 3)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+
+export const countBackup = (data: BackupData): BackupCounts => ({
+  jars: data.jars.length,
+  records: data.jars.reduce((sum, jar) => sum + (jar.records || []).length, 0),
+  categories: data.categories.length,
+  notes: data.notes.length,
+  unallocated: data.unallocated.length,
+  trash: data.trash.length,
+});
+
+export const createBackup = async (data: BackupData, now: Date = new Date()): Promise<BackupDocument> => {
+  const checksums = {} as Record<BackupSection, string>;
+  for (const section of BACKUP_SECTIONS) {
+    checksums[section] = await sha256(stableStringify(data[section]));
+  }
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    appVersion: __APP_VERSION__,
+    createdAt: now.toISOString(),
+    counts: countBackup(data),
+    checksums,
+    data,
+  };
+};
+
+export const backupFileName = (encrypted: boolean, now: Date = new Date()) =>
+  `jarify-backup-${now.toISOString().split('T')[0]}${encrypted ? '-encrypted' : ''}.json`;
+
+// Old backups hold each stored key as the JSON string that was in localStorage
+const readLegacySections = (raw: Record<string, unknown>): Record<string, unknown> => {
+  const sections: Record<string, unknown> = {};
+  (Object.keys(LEGACY_KEYS) as (keyof typeof LEGACY_KEYS)[]).forEach(key => {
+    const value = raw[key];
+    if (typeof value !== 'string') return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      throw new Error(`The backup's ${key} can't be read`);
+    }
+    const envelope = readEnvelope(parsed);
+    const migrations = LEGACY_KEYS[key];
+    sections[key] = envelope.version > migrations.length ? envelope.data : runMigrations(envelope, migrations).data;
+  });
+  return {
+    jars: sections.jars ?? [],
+    categories: sections.categories ?? [],
+    notes: sections.notes ?? [],
+    unallocated: sections.unallocated ?? [],
+    trash: [],
+    settings: {
+      darkMode: sections.darkMode ?? false,
+      currency: sections.currency ?? null,
+      trashRetention: DEFAULT_TRASH_RETENTION_DAYS,
+    },
+  };
+};
+
+/**
+ * Read a backup file. Throws with a message for the user when the file isn't a backup,
+ * was written by a newer version, fails a checksum or doesn't match the schemas.
+ */
+export const parseBackup = async (text: string): Promise<ParsedBackup> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON");
+  }
+  if (!isRecord(raw)) throw new Error("This file isn't a Jarify backup");
+
+  let sections: unknown;
+  let header: z.infer<typeof backupHeaderSchema> | null = null;
+  if (raw.format === BACKUP_FORMAT) {
+    const result = backupHeaderSchema.safeParse(raw);
+    if (!result.success) throw new Error(`The backup is incomplete (${describeIssues(result.error)})`);
+    header = result.data;
+    if (header.formatVersion > BACKUP_FORMAT_VERSION) {
+      throw new Error(`This backup was made by a newer version of Jarify (${header.appVersion}). Update the app to restore it.`);
+    }
+    // Every section must carry a checksum; a missing one is treated like a wrong one
+    for (const section of BACKUP_SECTIONS) {
+      const expected = header.checksums[section];
+      if (!expected) {
+        throw new Error(`The backup is damaged: its ${SECTION_LABELS[section]} have no checksum`);
+      }
+      if (expected !== (await sha256(stableStringify(header.data[section])))) {
+        throw new Error(`The backup is damaged: its ${SECTION_LABELS[section]} don't match their checksum`);
+      }
+    }
+    sections = header.data;
+  } else if (typeof raw.jars === 'string') {
+    sections = readLegacySections(raw);
+  } else {
+    throw new Error("This file isn't a Jarify backup");
+  }
+
+  const result = backupDataSchema.safeParse(sections);
+  if (!result.success) throw new Error(`The backup doesn't contain valid data (${describeIssues(result.error)})`);
+  return {
+    data: result.data as BackupData,
+    createdAt: header?.createdAt ?? null,
+    appVersion: header?.appVersion ?? null,
+    legacy: header === null,
+  };
+};
+
+const diffEntities = <T>(
+  current: T[],
+  incoming: T[],
+  key: (item: T) => string | number,
+  contents: (item: T) => unknown = item => item
+): EntityDiff => {
+  const existing = new Map(current.map(item => [key(item), stableStringify(contents(item))]));
+  const diff: EntityDiff = { added: 0, changed: 0, unchanged: 0, removed: 0 };
+  const seen = new Set<string | number>();
+  incoming.forEach(item => {
+    seen.add(key(item));
+    const before = existing.get(key(item));
+    if (before === undefined) diff.added += 1;
+    else if (before === stableStringify(contents(item))) diff.unchanged += 1;
+    else diff.changed += 1;
+  });
+  diff.removed = [...existing.keys()].filter(id => !seen.has(id)).length;
+  return diff;
+};
+
+const byId = (item: { id: number }) => item.id;
+
+// Record ids are only unique within their jar
+const recordsOf = (jars: Jar[]) => jars.flatMap(jar => (jar.records || []).map(record => ({ jarId: jar.id, record })));
+
+/**
+ * What restoring `incoming` over `current` would change, per kind of entity.
+ * Jars are compared without their records; records are matched on jar and id.
+ */
+export const diffBackup = (current: BackupData, incoming: BackupData): BackupDiff => ({
+  jars: diffEntities<Jar>(current.jars, incoming.jars, byId, ({ records, ...jar }) => jar),
+  records: diffEntities(
+    recordsOf(current.jars),
+    recordsOf(incoming.jars),
+    ({ jarId, record }) => `${jarId}:${record.id}`,
+    ({ record }) => record
+  ),
+  categories: diffEntities(current.categories, incoming.categories, byId),
+  notes: diffEntities(current.notes, incoming.notes, byId),
+  unallocated: diffEntities(current.unallocated, incoming.unallocated, byId),
+  trash: diffEntities(current.trash, incoming.trash, byId),
+});
+
+const unionById = <T extends { id: number }>(current: T[], incoming: T[]): T[] => {
+  const ids = new Set(current.map(item => item.id));
+  return [...current, ...incoming.filter(item => !ids.has(item.id))];
+};
+
+// Ids of the jars, categories and notes held in a trash list
+const trashedIds = (trash: TrashEntry[]) => {
+  const ids = { jars: new Set<number>(), categories: new Set<number>(), notes: new Set<number>() };
+  trash.forEach(entry => {
+    if (entry.kind === 'jar') ids.jars.add(entry.jar.id);
+    if (entry.kind === 'category') {
+      ids.categories.add(entry.category.id);
+      entry.jars.forEach(jar => ids.jars.add(jar.id));
+    }
+    if (entry.kind === 'note') ids.notes.add(entry.note.id);
+  });
+  return ids;
+};
+
+/** What a merge does besides adding what's new, for the preview to point out */
+export interface MergeNotes {
+  /** Jars whose category is gone on this device, moved to the first remaining category */
+  movedJars: number;
+  /** Jars from the backup left out because no category remains to hold them */
+  skippedJars: number;
+  /** Names of jars whose currency changed since the backup; the backup's extra transactions for them aren't merged */
+  currencyChanged: string[];
+}
+
+const mergeData = (current: BackupData, incoming: BackupData): { data: BackupData; notes: MergeNotes } => {
+  const trashed = trashedIds(current.trash);
+  const incomingJars = new Map(incoming.jars.map(jar => [jar.id, jar]));
+  const currencyChanged: string[] = [];
+  const jars = current.jars.map(jar => {
+    const backupJar = incomingJars.get(jar.id);
+    if (!backupJar) return jar;
+    const records = unionById<TransactionRecord>(jar.records || [], backupJar.records || []);
+    if (records.length === (jar.records || []).length) return jar;
+    // The backup's amounts are minor units of the old currency, which this jar's records were converted away from
+    if (toCurrencyCode(backupJar.currency) !== toCurrencyCode(jar.currency)) {
+      currencyChanged.push(jar.name);
+      return jar;
+    }
+    return recomputeTotals({ ...jar, records });
+  });
+
+  const categories = unionById(
+    current.categories,
+    incoming.categories.filter(category => !trashed.categories.has(category.id))
+  );
+  const liveCategories = new Set(categories.map(category => category.id));
+  const ownJars = new Set(current.jars.map(jar => jar.id));
+  let movedJars = 0;
+  let skippedJars = 0;
+  // Jars are only shown inside a category, so none may point at one that's trashed or gone
+  const placedJars = unionById(jars, incoming.jars.filter(jar => !trashed.jars.has(jar.id))).flatMap(jar => {
+    if (jar.categoryId !== undefined && liveCategories.has(jar.categoryId)) return [jar];
+    if (categories.length === 0) {
+      if (ownJars.has(jar.id)) return [jar];
+      skippedJars += 1;
+      return [];
+    }
+    movedJars += 1;
+    return [{ ...jar, categoryId: categories[0].id }];
+  });
+
+  const merged = {
+    jars: placedJars,
+    categories,
+    notes: unionById(current.notes, incoming.notes.filter(note => !trashed.notes.has(note.id))),
+  };
+
+  const live = {
+    jars: new Set(merged.jars.map(jar => jar.id)),
+    categories: liveCategories,
+    notes: new Set(merged.notes.map(note => note.id)),
+  };
+  const isLive = (entry: TrashEntry) => {
+    switch (entry.kind) {
+      case 'jar':
+        return live.jars.has(entry.jar.id);
+      case 'category':
+        return live.categories.has(entry.category.id) || entry.jars.some(jar => live.jars.has(jar.id));
+      case 'note':
+        return live.notes.has(entry.note.id);
+      case 'jarNote':
+        return merged.jars.some(jar => jar.id === entry.jarId && (jar.notes || []).some(note => note.id === entry.note.id));
+    }
+  };
+
+  return {
+    data: {
+      ...merged,
+      unallocated: unionById(current.unallocated, incoming.unallocated),
+      trash: unionById(current.trash, incoming.trash.filter(entry => !isLive(entry))),
+      settings: current.settings,
+    },
+    notes: { movedJars, skippedJars, currencyChanged },
+  };
+};
+
+/**
+ * Add what's new in the backup to the current data. Jars, records, categories, notes and
+ * trash entries are matched by id; anything on both sides keeps this device's version and
+ * nothing is removed. Jars that gain records get their totals recomputed. Settings stay as they are.
+ * An item is never both live and in the trash: what this device has trashed isn't brought back,
+ * and the backup's trash entries for items that are live here are left out, so restoring
+ * from the trash can't create a duplicate id.
+ * Jars whose category isn't live after the merge move to the first category, as restoring from
+ * the trash does, and records are only merged into jars still in the backup's currency.
+ */
+export const mergeBackup = (current: BackupData, incoming: BackupData): BackupData => mergeData(current, incoming).data;
+
+export const getMergeNotes = (current: BackupData, incoming: BackupData): MergeNotes => mergeData(current, incoming).notes;
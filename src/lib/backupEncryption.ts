@@ -0,0 +1,143 @@
+/**
+ * Passphrase encryption for backup files, using WebCrypto only.
+ * PBKDF2-SHA-256 with a random salt derives both the AES-GCM key and a verifier from the
+ * passphrase. AES-GCM authenticates the ciphertext, so any change to the file fails to decrypt;
+ * the verifier is what tells a wrong passphrase apart from a damaged file.
+ */
+import { z } from 'zod';
+
+export const ENCRYPTED_BACKUP_FORMAT = 'jarify-backup-encrypted';
+export const ENCRYPTED_BACKUP_VERSION = 1;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// OWASP's recommendation for PBKDF2-SHA-256; files can ask for more, up to a cap
+const PBKDF2_ITERATIONS = 600_000;
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  formatVersion: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  /** Derived along with the key; only the right passphrase reproduces it */
+  verifier: string;
+  /** AES-GCM ciphertext of the backup document's JSON; binary fields are base64 */
+  ciphertext: string;
+}
+
+export type DecryptResult =
+  | { status: 'ok'; text: string }
+  | { status: 'wrong-passphrase' }
+  | { status: 'corrupted' }
+  | { status: 'unsupported' }
+  | { status: 'unavailable' };
+
+const encryptedBackupSchema = z.object({
+  format: z.literal(ENCRYPTED_BACKUP_FORMAT),
+  formatVersion: z.number().int().positive(),
+  kdf: z.object({
+    name: z.literal('PBKDF2'),
+    hash: z.literal('SHA-256'),
+    iterations: z.number().int().positive().max(MAX_PBKDF2_ITERATIONS),
+    salt: z.string(),
+  }),
+  cipher: z.object({ name: z.literal('AES-GCM'), iv: z.string() }),
+  verifier: z.string(),
+  ciphertext: z.string(),
+});
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large backups don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+/**
+ * Stretch the passphrase into 512 bits: the first half becomes the AES key, the second the verifier
+ */
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveBits',
+  ]);
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 512)
+  );
+  const key = await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  return { key, verifier: toBase64(bits.slice(32)) };
+};
+
+/**
+ * Whether a file holds an encrypted backup, judged by its format field alone
+ */
+export const isEncryptedBackup = (text: string): boolean => {
+  try {
+    const raw = JSON.parse(text);
+    return typeof raw === 'object' && raw !== null && raw.format === ENCRYPTED_BACKUP_FORMAT;
+  } catch {
+    return false;
+  }
+};
+
+export const encryptBackup = async (text: string, passphrase: string): Promise<EncryptedBackup> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const { key, verifier } = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    formatVersion: ENCRYPTED_BACKUP_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    verifier,
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+/**
+ * Decrypt an encrypted backup file back to the backup document's JSON.
+ * Never rejects: a failure of WebCrypto itself (missing outside a secure context) is 'unavailable'.
+ */
+export const decryptBackup = async (text: string, passphrase: string): Promise<DecryptResult> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { status: 'corrupted' };
+  }
+  const result = encryptedBackupSchema.safeParse(raw);
+  if (!result.success) return { status: 'corrupted' };
+  const file = result.data;
+  if (file.formatVersion > ENCRYPTED_BACKUP_VERSION) return { status: 'unsupported' };
+
+  let salt: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array;
+  try {
+    salt = fromBase64(file.kdf.salt);
+    iv = fromBase64(file.cipher.iv);
+    ciphertext = fromBase64(file.ciphertext);
+  } catch {
+    return { status: 'corrupted' };
+  }
+
+  let derived: Awaited<ReturnType<typeof deriveKey>>;
+  try {
+    derived = await deriveKey(passphrase, salt, file.kdf.iterations);
+  } catch {
+    return { status: 'unavailable' };
+  }
+  const { key, verifier } = derived;
+  if (verifier !== file.verifier) return { status: 'wrong-passphrase' };
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext);
+    return { status: 'ok', text: new TextDecoder().decode(plaintext) };
+  } catch {
+    // The passphrase is right, so a failed authentication means the file was changed
+    return { status: 'corrupted' };
+  }
+};
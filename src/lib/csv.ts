@@ -0,0 +1,163 @@
+/**
+ * CSV export of transactions and jar summaries for spreadsheets, and the tokenizer the importer reads files with.
+ * Amounts are written as plain decimals in each jar's own currency (a currency column says which),
+ * dates as local `yyyy-MM-dd HH:mm`. Files start with a byte order mark so Excel reads them as UTF-8.
+ */
+import { addDays, format, parseISO } from 'date-fns';
+import { fromMinorUnits, getMinorUnitDigits, toCurrencyCode } from './currency';
+import { Category, Jar, TransactionRecord, getProgress } from './domain';
+import { TRANSACTION_TYPE_LABELS } from './transactions';
+import { WITHDRAWAL_REASONS } from './withdrawals';
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export const CSV_DELIMITERS: Record<CsvDelimiter, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+};
+
+export interface CsvExportOptions {
+  delimiter: CsvDelimiter;
+  /** yyyy-MM-dd, inclusive; empty for no bound */
+  from: string;
+  to: string;
+}
+
+const BYTE_ORDER_MARK = '\uFEFF';
+
+// Text starting with one of these is run as a formula by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: string, delimiter: CsvDelimiter) =>
+  value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// User-entered text is neutralised so a note like "=1+1" stays text
+const textCell = (value: string | undefined) => {
+  const text = value || '';
+  return FORMULA_PREFIX.test(text) ? `'${text}` : text;
+};
+
+const amountCell = (minor: number, currency: string | undefined) =>
+  fromMinorUnits(minor, currency).toFixed(getMinorUnitDigits(currency));
+
+const dateCell = (date: Date | string) => format(new Date(date), 'yyyy-MM-dd HH:mm');
+
+export const toCsv = (rows: string[][], delimiter: CsvDelimiter): string =>
+  BYTE_ORDER_MARK + rows.map(row => row.map(cell => escapeCell(cell, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+
+/**
+ * The delimiter that splits the first line into the most columns
+ */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const firstLine = text.replace(BYTE_ORDER_MARK, '').split(/\r?\n/)[0] || '';
+  const counts = (Object.keys(CSV_DELIMITERS) as CsvDelimiter[]).map(delimiter => ({
+    delimiter,
+    count: firstLine.split(delimiter).length,
+  }));
+  return counts.reduce((best, item) => (item.count > best.count ? item : best)).delimiter;
+};
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with delimiters, doubled quotes
+ * and line breaks inside them; blank lines are dropped.
+ */
+export const parseCsv = (text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const input = text.replace(BYTE_ORDER_MARK, '');
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+const categoryName = (jar: Jar, categories: Category[]) =>
+  categories.find(category => category.id === jar.categoryId)?.name;
+
+const inRange = (record: TransactionRecord, options: CsvExportOptions) => {
+  const time = new Date(record.date).getTime();
+  if (options.from && time < parseISO(options.from).getTime()) return false;
+  return !options.to || time < addDays(parseISO(options.to), 1).getTime();
+};
+
+/**
+ * One row per transaction record in the date range, oldest first
+ */
+export const transactionsToCsv = (jars: Jar[], categories: Category[], options: CsvExportOptions): string => {
+  const rows = jars
+    .flatMap(jar => (jar.records || []).filter(record => inRange(record, options)).map(record => ({ jar, record })))
+    .sort((a, b) => new Date(a.record.date).getTime() - new Date(b.record.date).getTime())
+    .map(({ jar, record }) => [
+      dateCell(record.date),
+      textCell(jar.name),
+      textCell(categoryName(jar, categories)),
+      toCurrencyCode(jar.currency),
+      TRANSACTION_TYPE_LABELS[record.type],
+      amountCell(record.amount, jar.currency),
+      record.reason ? WITHDRAWAL_REASONS[record.reason] : '',
+      textCell(record.note),
+      record.automatic ? 'Yes' : 'No',
+    ]);
+  return toCsv(
+    [['Date', 'Jar', 'Category', 'Currency', 'Type', 'Amount', 'Reason', 'Note', 'Automatic'], ...rows],
+    options.delimiter
+  );
+};
+
+/**
+ * Current state of every jar; the date range doesn't apply to balances
+ */
+export const jarsToCsv = (jars: Jar[], categories: Category[], delimiter: CsvDelimiter): string => {
+  const rows = jars.map(jar => [
+    textCell(jar.name),
+    textCell(categoryName(jar, categories)),
+    toCurrencyCode(jar.currency),
+    amountCell(jar.target, jar.currency),
+    amountCell(jar.saved, jar.currency),
+    amountCell(jar.withdrawn, jar.currency),
+    amountCell(Math.max(jar.target - jar.saved, 0), jar.currency),
+    getProgress(jar).toFixed(1),
+    jar.targetDate || '',
+    jar.createdAt ? dateCell(jar.createdAt) : '',
+    String((jar.records || []).length),
+  ]);
+  return toCsv(
+    [
+      ['Jar', 'Category', 'Currency', 'Target', 'Saved', 'Withdrawn', 'Remaining', 'Progress %', 'Target Date', 'Created', 'Transactions'],
+      ...rows,
+    ],
+    delimiter
+  );
+};
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { applyImport, parseImportAmount, parseImportDate, parseImportRows, planImport, ParsedRow } from './csvImport';
+import { Jar, TransactionRecord } from './domain';
+
+const jar = (records: TransactionRecord[] = [], overrides: Partial<Jar> = {}): Jar => ({
+  id: 1,
+  name: 'Holiday',
+  target: 100000,
+  saved: records.reduce((sum, record) => sum + (record.type === 'saved' ? record.amount : -record.amount), 0),
+  streak: 0,
+  withdrawn: 0,
+  records,
+  currency: 'USD',
+  ...overrides,
+});
+
+const row = (line: number, type: 'saved' | 'withdrawn', amount: number, date: Date): ParsedRow => ({
+  line,
+  type,
+  amount,
+  date,
+});
+
+const toHoliday = { kind: 'existing', jarId: 1 } as const;
+
+describe('parseImportDate', () => {
+  it('reads two-digit years in the current century', () => {
+    const date = parseImportDate('31/03/24', 'dmy');
+    expect(date && [date.getFullYear(), date.getMonth(), date.getDate()]).toEqual([2024, 2, 31]);
+  });
+
+  it('reads each date order with any separator', () => {
+    expect(parseImportDate('2024.03.31', 'ymd')?.getDate()).toBe(31);
+    expect(parseImportDate('03-31-2024', 'mdy')?.getMonth()).toBe(2);
+  });
+
+  it('places dates without a time at noon and keeps a given time', () => {
+    expect(parseImportDate('2024-03-31', 'ymd')?.getHours()).toBe(12);
+    expect(parseImportDate('2024-03-31 08:15', 'ymd')?.getHours()).toBe(8);
+  });
+
+  it('rejects impossible and implausible dates', () => {
+    expect(parseImportDate('31/02/2024', 'dmy')).toBeNull();
+    expect(parseImportDate('01/01/1900', 'dmy')).toBeNull();
+    expect(parseImportDate(`01/01/${new Date().getFullYear() + 5}`, 'dmy')).toBeNull();
+    expect(parseImportDate('', 'dmy')).toBeNull();
+  });
+});
+
+describe('parseImportAmount', () => {
+  it('reads signs, thousands separators and decimal commas', () => {
+    expect(parseImportAmount('1,234.50', '.')).toBe(1234.5);
+    expect(parseImportAmount('(50.00)', '.')).toBe(-50);
+    expect(parseImportAmount('50-', '.')).toBe(-50);
+    expect(parseImportAmount('€ 1.234,99', ',')).toBe(1234.99);
+    expect(parseImportAmount('n/a', '.')).toBeNull();
+  });
+});
+
+describe('parseImportRows', () => {
+  it('takes the type from the type column, else from the sign', () => {
+    const rows = parseImportRows(
+      [
+        ['Date', 'Amount', 'Type'],
+        ['2024-03-01', '25', 'Withdrawal'],
+        ['2024-03-02', '-10', ''],
+        ['2024-03-03', 'x', ''],
+      ],
+      { hasHeader: true, mapping: { date: 0, amount: 1, type: 2, note: null, jar: null }, dateOrder: 'ymd', decimalSeparator: '.' }
+    );
+    expect(rows.map(r => r.type)).toEqual(['withdrawn', 'withdrawn', undefined]);
+    expect(rows[1].amount).toBe(10);
+    expect(rows[2]).toMatchObject({ line: 4, error: 'Unreadable amount "x"' });
+  });
+});
+
+describe('planImport', () => {
+  const march = (day: number) => new Date(2024, 2, day, 12);
+
+  it('flags a row matching an existing record of the same type, amount and day, once per record', () => {
+    const existing = jar([{ id: 1, type: 'saved', amount: 2500, date: march(1) }]);
+    const planned = planImport(
+      [row(1, 'saved', 25, march(1)), row(2, 'saved', 25, march(1))],
+      [existing],
+      {},
+      toHoliday,
+      'USD',
+      false
+    );
+    expect(planned.map(r => r.duplicate)).toEqual([true, false]);
+  });
+
+  it('rejects withdrawals that would overdraw the jar at any point', () => {
+    const planned = planImport(
+      [row(1, 'saved', 50, march(1)), row(2, 'withdrawn', 80, march(2)), row(3, 'withdrawn', 30, march(3))],
+      [jar()],
+      {},
+      toHoliday,
+      'USD',
+      false
+    );
+    expect(planned.map(r => r.error)).toEqual([undefined, 'Would leave the jar with a negative balance', undefined]);
+  });
+
+  it("checks withdrawals against the balance after them, not just before", () => {
+    const existing = jar([
+      { id: 1, type: 'saved', amount: 5000, date: march(1) },
+      { id: 2, type: 'withdrawn', amount: 4000, date: march(10) },
+    ]);
+    const planned = planImport([row(1, 'withdrawn', 20, march(5))], [existing], {}, toHoliday, 'USD', false);
+    expect(planned[0].error).toBe('Would leave the jar with a negative balance');
+  });
+
+  it("doesn't count skipped duplicates towards the balance", () => {
+    const existing = jar([{ id: 1, type: 'saved', amount: 2500, date: march(1) }]);
+    const rows = [row(1, 'saved', 25, march(1)), row(2, 'withdrawn', 40, march(2))];
+    expect(planImport(rows, [existing], {}, toHoliday, 'USD', false)[1].error).toBeDefined();
+    expect(planImport(rows, [existing], {}, toHoliday, 'USD', true)[1].error).toBeUndefined();
+  });
+
+  it('reports rows without a jar', () => {
+    expect(planImport([row(1, 'saved', 5, march(1))], [jar()], {}, null, 'USD', false)[0].error).toBe('No jar chosen');
+  });
+});
+
+describe('applyImport', () => {
+  const march = (day: number) => new Date(2024, 2, day, 12);
+  const newJar = { kind: 'new', name: 'Bike' } as const;
+
+  it('adds ready rows and creates new jars in the chosen category', () => {
+    const planned = planImport(
+      [{ ...row(1, 'saved', 30, march(1)), jarName: 'Bike' }, row(2, 'saved', 10, march(2))],
+      [jar()],
+      { bike: newJar },
+      toHoliday,
+      'EUR',
+      false
+    );
+    const result = applyImport([jar()], planned, { includeDuplicates: false, newJarCurrency: 'EUR', categoryId: 7 });
+    expect(result).toMatchObject({ imported: 2, created: 1 });
+    expect(result.jars[0].saved).toBe(1000);
+    expect(result.jars[1]).toMatchObject({ name: 'Bike', currency: 'EUR', categoryId: 7, saved: 3000, target: 3000 });
+  });
+
+  it('creates no jars without a category', () => {
+    const planned = planImport([{ ...row(1, 'saved', 30, march(1)), jarName: 'Bike' }], [], { bike: newJar }, null, 'USD', false);
+    expect(applyImport([], planned, { includeDuplicates: false, newJarCurrency: 'USD' })).toMatchObject({
+      jars: [],
+      imported: 0,
+      created: 0,
+    });
+  });
+});
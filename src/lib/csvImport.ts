@@ -0,0 +1,371 @@
+/**
+ * Importing transactions from a spreadsheet or bank-statement CSV.
+ * Rows are read with a column mapping, assigned to existing jars or new ones, and checked
+ * against the records already in those jars so the same statement can be imported twice
+ * without doubling the history.
+ */
+import { isValid, parse, parseISO, setHours } from 'date-fns';
+import { toCurrencyCode, toMinorUnits } from './currency';
+import { Jar, TransactionRecord, addRecords } from './domain';
+import { toDateKey } from './recurring';
+
+export type ImportField = 'date' | 'amount' | 'type' | 'note' | 'jar';
+export type ColumnMapping = Record<ImportField, number | null>;
+export type DateOrder = 'ymd' | 'dmy' | 'mdy';
+export type DecimalSeparator = '.' | ',';
+
+export const IMPORT_FIELDS: Record<ImportField, { label: string; required: boolean }> = {
+  date: { label: 'Date', required: true },
+  amount: { label: 'Amount', required: true },
+  type: { label: 'Type', required: false },
+  note: { label: 'Note', required: false },
+  jar: { label: 'Jar', required: false },
+};
+
+/** Example of each date order, shown when choosing one */
+export const DATE_ORDERS: Record<DateOrder, string> = {
+  ymd: '2024-03-31',
+  dmy: '31/03/2024',
+  mdy: '03/31/2024',
+};
+
+export interface ImportOptions {
+  hasHeader: boolean;
+  mapping: ColumnMapping;
+  dateOrder: DateOrder;
+  decimalSeparator: DecimalSeparator;
+}
+
+/** Where a row's money goes: an existing jar or a jar created by the import */
+export type JarTarget = { kind: 'existing'; jarId: number } | { kind: 'new'; name: string };
+
+export interface ParsedRow {
+  /** 1-based line in the file, for error messages */
+  line: number;
+  date?: Date;
+  /** Positive decimal amount in the destination jar's currency */
+  amount?: number;
+  type?: 'saved' | 'withdrawn';
+  note?: string;
+  /** Value of the jar column, if mapped */
+  jarName?: string;
+  error?: string;
+}
+
+export interface PlannedRow extends ParsedRow {
+  target?: JarTarget;
+  /** Minor units in the destination jar's currency */
+  minor?: number;
+  /** Matches a record already in the destination jar */
+  duplicate: boolean;
+}
+
+export interface ImportResult {
+  jars: Jar[];
+  imported: number;
+  created: number;
+}
+
+const FIELD_PATTERNS: Record<ImportField, RegExp> = {
+  date: /date|day|time|booked|posted/i,
+  amount: /amount|value|sum|total|debit|credit/i,
+  type: /type|direction|kind/i,
+  note: /note|memo|description|details|reference|payee|text/i,
+  jar: /jar|account|pot|goal/i,
+};
+
+const WITHDRAWAL_TYPE = /\b(withdraw\w*|debit|out|expense|spent|payment)\b/i;
+const DEPOSIT_TYPE = /\b(deposit\w*|credit|in|saved?|saving|income)\b/i;
+
+/**
+ * Guess the mapping from header names; each column is used for at most one field
+ */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  (Object.keys(FIELD_PATTERNS) as ImportField[]).forEach(field => {
+    const index = headers.findIndex((header, i) => !used.has(i) && FIELD_PATTERNS[field].test(header));
+    mapping[field] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  });
+  return mapping;
+};
+
+// Dates outside these years are almost certainly a misread column or format
+const MIN_IMPORT_YEAR = 1970;
+const MAX_YEARS_AHEAD = 1;
+
+const isPlausibleDate = (date: Date) =>
+  isValid(date) && date.getFullYear() >= MIN_IMPORT_YEAR && date.getFullYear() <= new Date().getFullYear() + MAX_YEARS_AHEAD;
+
+/**
+ * Dates in the chosen order with `-`, `/` or `.` separators, optionally followed by a time.
+ * Two-digit years ("31/03/24") are read as the nearest matching century.
+ * Dates without a time are placed at noon so no time zone moves them to another day.
+ */
+export const parseImportDate = (value: string, order: DateOrder): Date | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    const iso = parseISO(trimmed);
+    return isPlausibleDate(iso) ? iso : null;
+  }
+  const [datePart, timePart] = trimmed.split(/\s+/);
+  const normalized = datePart.replace(/[./]/g, '-');
+  const parts = normalized.split('-');
+  // date-fns reads "24" with a yyyy pattern as the year 24, so the year's length picks the pattern
+  const year = order === 'ymd' ? parts[0] : parts[2];
+  const yearToken = year?.length === 2 ? 'yy' : 'yyyy';
+  const pattern = { ymd: `${yearToken}-M-d`, dmy: `d-M-${yearToken}`, mdy: `M-d-${yearToken}` }[order];
+  const date = parse(normalized, pattern, new Date());
+  if (!isPlausibleDate(date)) return null;
+  const time = timePart && parse(timePart, timePart.split(':').length === 3 ? 'H:mm:ss' : 'H:mm', date);
+  return time && isValid(time) ? time : setHours(date, 12);
+};
+
+/**
+ * Signed decimal amount from text like "1,234.50", "-50", "(50.00)", "€ 12,99" or "50-"
+ */
+export const parseImportAmount = (value: string, decimalSeparator: DecimalSeparator): number | null => {
+  let text = value.trim();
+  const negative = /^\(.*\)$/.test(text) || /^-/.test(text) || /-$/.test(text);
+  text = text.replace(/[^\d.,]/g, '');
+  text = decimalSeparator === ',' ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+  if (!text) return null;
+  const amount = Number(text);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+/**
+ * Read every data row with the mapping. Rows that can't be read keep an `error`.
+ */
+export const parseImportRows = (rows: string[][], options: ImportOptions): ParsedRow[] => {
+  const { mapping } = options;
+  const cell = (row: string[], field: ImportField) =>
+    mapping[field] === null ? '' : (row[mapping[field] as number] || '').trim();
+  const offset = options.hasHeader ? 1 : 0;
+
+  return rows.slice(offset).map((row, index) => {
+    const line = index + offset + 1;
+    const date = parseImportDate(cell(row, 'date'), options.dateOrder);
+    if (!date) return { line, error: `Unreadable date "${cell(row, 'date')}"` };
+    const signed = parseImportAmount(cell(row, 'amount'), options.decimalSeparator);
+    if (signed === null || signed === 0) return { line, date, error: `Unreadable amount "${cell(row, 'amount')}"` };
+
+    const typeText = cell(row, 'type');
+    const type = WITHDRAWAL_TYPE.test(typeText)
+      ? 'withdrawn'
+      : DEPOSIT_TYPE.test(typeText)
+        ? 'saved'
+        : signed < 0
+          ? 'withdrawn'
+          : 'saved';
+    return {
+      line,
+      date,
+      amount: Math.abs(signed),
+      type,
+      note: cell(row, 'note') || undefined,
+      jarName: cell(row, 'jar') || undefined,
+    };
+  });
+};
+
+/** Key for matching jar names case- and space-insensitively */
+export const jarNameKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Default destinations for the jar names in the file: an existing jar with the same name,
+ * otherwise a new jar with that name
+ */
+export const suggestJarTargets = (rows: ParsedRow[], jars: Jar[]): Record<string, JarTarget> => {
+  const targets: Record<string, JarTarget> = {};
+  rows.forEach(row => {
+    if (!row.jarName) return;
+    const key = jarNameKey(row.jarName);
+    if (targets[key]) return;
+    const existing = jars.find(jar => jarNameKey(jar.name) === key);
+    targets[key] = existing ? { kind: 'existing', jarId: existing.id } : { kind: 'new', name: row.jarName.trim() };
+  });
+  return targets;
+};
+
+const duplicateKey = (type: TransactionRecord['type'], minor: number, date: Date) => `${type}|${minor}|${toDateKey(date)}`;
+
+const targetKey = (target: JarTarget) => (target.kind === 'existing' ? `jar:${target.jarId}` : `new:${jarNameKey(target.name)}`);
+
+/**
+ * Turn imported withdrawals that would take their jar's balance below zero at any point in its
+ * history into errors, like editing a record can't leave a negative balance.
+ * Withdrawals are taken oldest first; each may use at most the lowest balance from its date on.
+ */
+const rejectOverdrafts = (rows: PlannedRow[], jars: Jar[], includeDuplicates: boolean): PlannedRow[] => {
+  const applied = (row: PlannedRow) => !row.error && row.target && row.minor && (includeDuplicates || !row.duplicate);
+  const groups = new Map<string, PlannedRow[]>();
+  rows.filter(applied).forEach(row => {
+    const key = targetKey(row.target!);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+
+  const rejected = new Set<PlannedRow>();
+  groups.forEach((group, key) => {
+    const jar = jars.find(j => `jar:${j.id}` === key);
+    const events = [
+      ...(jar?.records || []).map(record => ({
+        time: new Date(record.date).getTime(),
+        amount: record.type === 'saved' ? record.amount : -record.amount,
+      })),
+      ...group.filter(row => row.type === 'saved').map(row => ({ time: row.date!.getTime(), amount: row.minor! })),
+    ].sort((a, b) => a.time - b.time);
+
+    // Balance after each event, and the lowest balance from each event to the end
+    const balances: number[] = [];
+    events.forEach((event, i) => balances.push((balances[i - 1] || 0) + event.amount));
+    const lowestFrom = [...balances];
+    for (let i = lowestFrom.length - 2; i >= 0; i--) lowestFrom[i] = Math.min(lowestFrom[i], lowestFrom[i + 1]);
+
+    let withdrawn = 0;
+    group
+      .filter(row => row.type === 'withdrawn')
+      .sort((a, b) => a.date!.getTime() - b.date!.getTime())
+      .forEach(row => {
+        const time = row.date!.getTime();
+        // First event after the withdrawal, by binary search
+        let next = 0;
+        let end = events.length;
+        while (next < end) {
+          const middle = (next + end) >> 1;
+          if (events[middle].time <= time) next = middle + 1;
+          else end = middle;
+        }
+        const balanceThen = next > 0 ? balances[next - 1] : 0;
+        const available = Math.min(balanceThen, next < events.length ? lowestFrom[next] : Infinity) - withdrawn;
+        if (row.minor! > available) rejected.add(row);
+        else withdrawn += row.minor!;
+      });
+  });
+
+  return rows.map(row => (rejected.has(row) ? { ...row, error: 'Would leave the jar with a negative balance' } : row));
+};
+
+/**
+ * Resolve each row's jar and amount and flag duplicates: a row duplicates an existing record
+ * of the same type and amount on the same day in the same jar. Each existing record can
+ * only be matched once, so two identical rows against one existing record leave one to import.
+ * Rows without a jar column value go to `fallback`; new jars use `newJarCurrency`.
+ * Withdrawals that would overdraw their jar are returned as errors (see `rejectOverdrafts`).
+ */
+export const planImport = (
+  rows: ParsedRow[],
+  jars: Jar[],
+  targets: Record<string, JarTarget>,
+  fallback: JarTarget | null,
+  newJarCurrency: string,
+  includeDuplicates: boolean
+): PlannedRow[] => {
+  const unmatched = new Map<number, Map<string, number>>();
+  const existingKeys = (jar: Jar) => {
+    let keys = unmatched.get(jar.id);
+    if (!keys) {
+      keys = new Map();
+      (jar.records || []).forEach(record => {
+        const key = duplicateKey(record.type, record.amount, new Date(record.date));
+        keys!.set(key, (keys!.get(key) || 0) + 1);
+      });
+      unmatched.set(jar.id, keys);
+    }
+    return keys;
+  };
+
+  const planned = rows.map((row): PlannedRow => {
+    if (row.error || !row.date || row.amount === undefined || !row.type) return { ...row, duplicate: false };
+    const target = row.jarName ? targets[jarNameKey(row.jarName)] : fallback;
+    if (!target) return { ...row, duplicate: false, error: 'No jar chosen' };
+
+    const jar = target.kind === 'existing' ? jars.find(j => j.id === target.jarId) : undefined;
+    if (target.kind === 'existing' && !jar) return { ...row, duplicate: false, error: 'Jar no longer exists' };
+    const minor = toMinorUnits(row.amount, jar ? jar.currency : newJarCurrency);
+    if (minor <= 0) return { ...row, target, duplicate: false, error: 'Amount rounds to zero' };
+
+    let duplicate = false;
+    if (jar) {
+      const keys = existingKeys(jar);
+      const key = duplicateKey(row.type, minor, row.date);
+      const count = keys.get(key) || 0;
+      if (count > 0) {
+        duplicate = true;
+        keys.set(key, count - 1);
+      }
+    }
+    return { ...row, target, minor, duplicate };
+  });
+  return rejectOverdrafts(planned, jars, includeDuplicates);
+};
+
+/**
+ * Add the ready rows to their jars, creating new jars on the way. A new jar's target is
+ * what was deposited into it, so it can be adjusted afterwards from the edit screen.
+ * Jars are only shown inside a category, so without `categoryId` no new jars are created
+ * and rows meant for them are left out.
+ */
+export const applyImport = (
+  jars: Jar[],
+  rows: PlannedRow[],
+  options: { includeDuplicates: boolean; newJarCurrency: string; categoryId?: number },
+  now: Date = new Date()
+): ImportResult => {
+  const ready = rows.filter(
+    row =>
+      !row.error &&
+      row.target &&
+      row.minor &&
+      (options.includeDuplicates || !row.duplicate) &&
+      (row.target.kind === 'existing' || options.categoryId !== undefined)
+  );
+  const toRecord = (row: PlannedRow): Omit<TransactionRecord, 'id'> => ({
+    type: row.type!,
+    amount: row.minor!,
+    date: row.date!,
+    ...(row.note ? { note: row.note } : {}),
+    imported: true,
+  });
+
+  const byExisting = new Map<number, PlannedRow[]>();
+  const byNew = new Map<string, { name: string; rows: PlannedRow[] }>();
+  ready.forEach(row => {
+    const target = row.target!;
+    if (target.kind === 'existing') {
+      byExisting.set(target.jarId, [...(byExisting.get(target.jarId) || []), row]);
+    } else {
+      const key = jarNameKey(target.name);
+      const group = byNew.get(key) || { name: target.name, rows: [] };
+      byNew.set(key, { ...group, rows: [...group.rows, row] });
+    }
+  });
+
+  const updated = jars.map(jar => {
+    const jarRows = byExisting.get(jar.id);
+    return jarRows ? addRecords(jar, jarRows.map(toRecord)) : jar;
+  });
+
+  const created = [...byNew.values()].map(({ name, rows: jarRows }, index) => {
+    const deposited = jarRows.filter(row => row.type === 'saved').reduce((sum, row) => sum + row.minor!, 0);
+    const jar: Jar = {
+      id: now.getTime() + index,
+      name,
+      target: Math.max(deposited, 1),
+      saved: 0,
+      streak: 0,
+      withdrawn: 0,
+      notes: [],
+      records: [],
+      currency: toCurrencyCode(options.newJarCurrency),
+      categoryId: options.categoryId,
+      createdAt: now.toISOString(),
+    };
+    return addRecords(jar, jarRows.map(toRecord));
+  });
+
+  return { jars: [...updated, ...created], imported: ready.length, created: created.length };
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CurrencyPreferences,
+  convertMinorUnits,
+  divideMinorUnits,
+  parseAmount,
+  parseRatesFile,
+  rebaseRates,
+  sumInBase,
+  toAmountInput,
+  toMinorUnits,
+} from './currency';
+
+const preferences = (overrides: Partial<CurrencyPreferences> = {}): CurrencyPreferences => ({
+  baseCurrency: 'USD',
+  rates: {},
+  amountDisplay: 'compact',
+  ...overrides,
+});
+
+describe('toMinorUnits', () => {
+  it('rounds half away from zero without binary floating point drift', () => {
+    expect(toMinorUnits(1.005, 'USD')).toBe(101);
+    expect(toMinorUnits(-1.005, 'USD')).toBe(-101);
+    expect(toMinorUnits(0.1 + 0.2, 'USD')).toBe(30);
+  });
+
+  it('follows the minor unit of the currency', () => {
+    expect(toMinorUnits(1234.5, 'JPY')).toBe(1235);
+    expect(toMinorUnits(1.2345, 'KWD')).toBe(1235);
+  });
+
+  it('treats non-finite amounts as zero', () => {
+    expect(toMinorUnits(NaN, 'USD')).toBe(0);
+    expect(toMinorUnits(Infinity, 'USD')).toBe(0);
+  });
+});
+
+describe('parseAmount', () => {
+  it('accepts positive amounts of at least one minor unit', () => {
+    expect(parseAmount('12.50', 'USD')).toBe(1250);
+    expect(parseAmount('0.004', 'USD')).toBeNull();
+    expect(parseAmount('-5', 'USD')).toBeNull();
+    expect(parseAmount('abc', 'USD')).toBeNull();
+  });
+});
+
+describe('toAmountInput', () => {
+  it('gives back the decimal amount for editing', () => {
+    expect(toAmountInput(1050, 'USD')).toBe('10.5');
+    expect(toAmountInput(500, 'JPY')).toBe('500');
+  });
+});
+
+describe('divideMinorUnits', () => {
+  it('rounds in the requested direction', () => {
+    expect(divideMinorUnits(1000, 3, 'up')).toBe(334);
+    expect(divideMinorUnits(1000, 3, 'down')).toBe(333);
+    expect(divideMinorUnits(1000, 3, 'nearest')).toBe(333);
+  });
+});
+
+describe('convertMinorUnits', () => {
+  it('converts between currencies with different minor units', () => {
+    expect(convertMinorUnits(1050, 'USD', 'JPY', 1)).toBe(11);
+    expect(convertMinorUnits(1000, 'JPY', 'USD', 0.0067)).toBe(670);
+  });
+});
+
+describe('sumInBase', () => {
+  it('converts each amount to the base and reports currencies without a rate', () => {
+    const settings = preferences({ rates: { EUR: 1.1 } });
+    expect(
+      sumInBase(
+        [
+          { amount: 1000, currency: 'USD' },
+          { amount: 1000, currency: 'EUR' },
+          { amount: 500, currency: 'GBP' },
+        ],
+        settings
+      )
+    ).toEqual({ total: 2100, missing: ['GBP'] });
+  });
+});
+
+describe('rebaseRates', () => {
+  it('re-expresses the table relative to the new base', () => {
+    const rebased = rebaseRates(preferences({ rates: { EUR: 1.25, GBP: 1.5 } }), 'EUR');
+    expect(rebased.baseCurrency).toBe('EUR');
+    expect(rebased.rates.USD).toBeCloseTo(0.8);
+    expect(rebased.rates.GBP).toBeCloseTo(1.2);
+    expect(rebased.rates.EUR).toBeUndefined();
+  });
+});
+
+describe('parseRatesFile', () => {
+  it('inverts rates quoted as units per one unit of the base', () => {
+    const rates = parseRatesFile('{ "base": "USD", "rates": { "EUR": 0.8 } }', 'rates.json', preferences());
+    expect(rates.EUR).toBeCloseTo(1.25);
+  });
+
+  it('moves rates quoted in another base onto the current one', () => {
+    const rates = parseRatesFile('{ "base": "EUR", "rates": { "USD": 1.25, "GBP": 0.8 } }', 'rates.json', preferences());
+    expect(rates.EUR).toBeCloseTo(1.25);
+    expect(rates.GBP).toBeCloseTo(1.5625);
+    expect(rates.USD).toBeUndefined();
+  });
+
+  it('reads CSV lines and skips a header', () => {
+    const rates = parseRatesFile('code,rate\nEUR,0.8\nJPY,150', 'rates.csv', preferences());
+    expect(rates.EUR).toBeCloseTo(1.25);
+    expect(rates.JPY).toBeCloseTo(1 / 150);
+  });
+
+  it("refuses a file quoted in another base that doesn't include ours", () => {
+    expect(() => parseRatesFile('{ "base": "EUR", "rates": { "GBP": 0.8 } }', 'rates.json', preferences())).toThrow(
+      /quoted in EUR/
+    );
+  });
+});
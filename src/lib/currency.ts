@@ -0,0 +1,299 @@
+/**
+ * Currencies, the user's base currency and the locally edited exchange-rate table.
+ * Jars keep the currency they were created with; aggregate totals are converted
+ * into the base currency with these rates. There's no network access, so rates are
+ * entered by hand or imported from a CSV/JSON file.
+ *
+ * Stored amounts are integers in the currency's minor unit (cents for USD, whole
+ * yen for JPY) so sums stay exact. Decimal amounts only exist at the edges:
+ * user input, display and exchange-rate conversion.
+ */
+
+export interface CurrencyInfo {
+  code: string;
+  symbol: string;
+  name: string;
+}
+
+export interface CurrencyPreferences {
+  /** ISO 4217 code every total is converted into */
+  baseCurrency: string;
+  /** Value of one unit of each currency in the base currency, keyed by ISO code */
+  rates: Record<string, number>;
+  /** Show large amounts as 1.2K / 3.4M instead of in full (defaults to compact) */
+  amountDisplay?: AmountDisplay;
+  updatedAt?: string;
+}
+
+export type AmountDisplay = 'compact' | 'full';
+
+export interface MoneyFormatOptions {
+  compact?: boolean;
+  /** Prefix positive amounts with "+" (negative amounts always get "-") */
+  signed?: boolean;
+}
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: 'USD', symbol: '$', name: 'US Dollar' },
+  { code: 'EUR', symbol: '€', name: 'Euro' },
+  { code: 'GBP', symbol: '£', name: 'British Pound' },
+  { code: 'JPY', symbol: '¥', name: 'Japanese Yen' },
+  { code: 'CNY', symbol: 'CN¥', name: 'Chinese Yuan' },
+  { code: 'INR', symbol: '₹', name: 'Indian Rupee' },
+  { code: 'RUB', symbol: '₽', name: 'Russian Ruble' },
+  { code: 'KRW', symbol: '₩', name: 'South Korean Won' },
+  { code: 'PKR', symbol: 'PKR', name: 'Pakistani Rupee' },
+  { code: 'AED', symbol: 'AED', name: 'UAE Dirham' },
+  { code: 'SAR', symbol: 'SAR', name: 'Saudi Riyal' },
+  { code: 'CHF', symbol: 'CHF', name: 'Swiss Franc' },
+  { code: 'CAD', symbol: 'CAD', name: 'Canadian Dollar' },
+  { code: 'AUD', symbol: 'AUD', name: 'Australian Dollar' },
+];
+
+/**
+ * ISO code for a jar currency. Older jars store a symbol ("$", "€"), newer ones the code.
+ */
+export const toCurrencyCode = (currency: string | undefined): string => {
+  if (!currency) return 'USD';
+  const upper = currency.toUpperCase();
+  if (CURRENCIES.some(c => c.code === upper)) return upper;
+  return CURRENCIES.find(c => c.symbol === currency)?.code || upper;
+};
+
+export const getCurrencySymbol = (code: string): string =>
+  CURRENCIES.find(c => c.code === code)?.symbol || code;
+
+const minorUnitDigits = new Map<string, number>();
+
+/**
+ * Number of decimal places in a currency's minor unit (2 for USD, 0 for JPY)
+ */
+export const getMinorUnitDigits = (currency: string | undefined): number => {
+  const code = toCurrencyCode(currency);
+  let digits = minorUnitDigits.get(code);
+  if (digits === undefined) {
+    try {
+      digits = new Intl.NumberFormat('en', { style: 'currency', currency: code }).resolvedOptions().maximumFractionDigits;
+    } catch {
+      digits = 2;
+    }
+    minorUnitDigits.set(code, digits);
+  }
+  return digits;
+};
+
+/**
+ * Decimal amount to integer minor units, rounding half away from zero.
+ * The decimal point is shifted in the number's text form so 1.005 becomes 100.5
+ * (and rounds to 101) rather than 100.49999999999999.
+ */
+export const toMinorUnits = (amount: number, currency: string | undefined): number => {
+  if (!Number.isFinite(amount)) return 0;
+  const digits = getMinorUnitDigits(currency);
+  let shifted = Number(`${Math.abs(amount)}e${digits}`);
+  if (!Number.isFinite(shifted)) shifted = Math.abs(amount) * 10 ** digits;
+  return Math.sign(amount) * Math.round(shifted) || 0;
+};
+
+export const fromMinorUnits = (minor: number, currency: string | undefined): number =>
+  minor / 10 ** getMinorUnitDigits(currency);
+
+/**
+ * Parse an amount typed by the user into minor units.
+ * Returns null unless it is a positive amount of at least one minor unit.
+ */
+export const parseAmount = (input: string, currency: string | undefined): number | null => {
+  const minor = toMinorUnits(parseFloat(input), currency);
+  return minor > 0 ? minor : null;
+};
+
+/**
+ * Minor units as an editable decimal string, e.g. 1050 USD -> "10.5"
+ */
+export const toAmountInput = (minor: number, currency: string | undefined): string =>
+  String(fromMinorUnits(minor, currency));
+
+export type Rounding = 'up' | 'down' | 'nearest';
+
+/**
+ * Divide an amount into whole minor units with an explicit rounding direction.
+ * Savings plans round up so following them always reaches the goal.
+ */
+export const divideMinorUnits = (minor: number, divisor: number, rounding: Rounding): number => {
+  const share = minor / divisor;
+  switch (rounding) {
+    case 'up':
+      return Math.ceil(share);
+    case 'down':
+      return Math.floor(share);
+    case 'nearest':
+      return Math.round(share);
+  }
+};
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const getFormatter = (code: string, compact: boolean, signed: boolean): Intl.NumberFormat => {
+  const key = `${code}|${compact}|${signed}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency: code,
+      signDisplay: signed ? 'exceptZero' : 'auto',
+      ...(compact ? { notation: 'compact', maximumFractionDigits: 2 } : {}),
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Format an amount in minor units for display.
+ * Decimal places and symbol placement come from Intl; compact notation only kicks in
+ * from 1,000 up so small amounts keep their cents.
+ */
+export const formatMoney = (minor: number, currency: string | undefined, options: MoneyFormatOptions = {}): string => {
+  const code = toCurrencyCode(currency);
+  const value = Number.isFinite(minor) ? fromMinorUnits(minor, code) : 0;
+  const compact = !!options.compact && Math.abs(value) >= 1000;
+  try {
+    return getFormatter(code, compact, !!options.signed).format(value);
+  } catch {
+    // Not a well-formed ISO code (a free-form symbol from an old jar); keep it as a prefix
+    const sign = value < 0 ? '-' : options.signed && value > 0 ? '+' : '';
+    return `${sign}${currency}${Math.abs(value).toFixed(2)}`;
+  }
+};
+
+/**
+ * Base currency for first-time users: the currency most of their jars use
+ */
+export const defaultCurrencyPreferences = (jarCurrencies: Array<string | undefined>): CurrencyPreferences => {
+  const counts = new Map<string, number>();
+  jarCurrencies.forEach(currency => {
+    const code = toCurrencyCode(currency);
+    counts.set(code, (counts.get(code) || 0) + 1);
+  });
+  const baseCurrency = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 'USD';
+  return { baseCurrency, rates: {}, amountDisplay: 'compact' };
+};
+
+const getRate = (code: string, settings: CurrencyPreferences): number | undefined =>
+  code === settings.baseCurrency ? 1 : settings.rates[code];
+
+/**
+ * Convert a decimal amount between two currencies through the base currency.
+ * Returns null when either side has no rate.
+ */
+export const convert = (amount: number, from: string | undefined, to: string | undefined, settings: CurrencyPreferences): number | null => {
+  const fromRate = getRate(toCurrencyCode(from), settings);
+  const toRate = getRate(toCurrencyCode(to), settings);
+  if (!fromRate || !toRate) return null;
+  return (amount * fromRate) / toRate;
+};
+
+/**
+ * Convert minor units of a jar's currency into minor units of the base currency,
+ * rounded to the nearest base minor unit
+ */
+export const toBaseMinorUnits = (minor: number, currency: string | undefined, settings: CurrencyPreferences): number | null => {
+  const converted = convert(fromMinorUnits(minor, currency), currency, settings.baseCurrency, settings);
+  return converted === null ? null : toMinorUnits(converted, settings.baseCurrency);
+};
+
+/**
+ * Units of `to` that one unit of `from` buys, or null when either side has no rate
+ */
+export const getExchangeRate = (from: string | undefined, to: string | undefined, settings: CurrencyPreferences): number | null =>
+  convert(1, from, to, settings);
+
+/**
+ * Convert minor units between two currencies at `rate`, rounded to the nearest minor unit.
+ * A rate of 1 keeps the face value, so 10.50 EUR becomes 10.50 USD (or 11 JPY, which has no minor unit).
+ */
+export const convertMinorUnits = (minor: number, from: string | undefined, to: string | undefined, rate: number): number =>
+  toMinorUnits(fromMinorUnits(minor, from) * rate, to);
+
+/**
+ * Sum minor-unit amounts in mixed currencies into base-currency minor units.
+ * Each amount is rounded once on conversion, so the sum itself is exact.
+ * Currencies without a rate are left out and reported in `missing`.
+ */
+export const sumInBase = (
+  items: Array<{ amount: number; currency?: string }>,
+  settings: CurrencyPreferences
+): { total: number; missing: string[] } => {
+  const missing = new Set<string>();
+  const total = items.reduce((sum, item) => {
+    const converted = toBaseMinorUnits(item.amount, item.currency, settings);
+    if (converted === null) {
+      missing.add(toCurrencyCode(item.currency));
+      return sum;
+    }
+    return sum + converted;
+  }, 0);
+  return { total, missing: [...missing] };
+};
+
+/**
+ * Re-express the rate table relative to a new base currency.
+ * Rates that can't be carried over (no rate for the new base) are dropped.
+ */
+export const rebaseRates = (settings: CurrencyPreferences, baseCurrency: string): CurrencyPreferences => {
+  const newBaseRate = getRate(baseCurrency, settings);
+  if (!newBaseRate) return { ...settings, baseCurrency, rates: {} };
+  const rates: Record<string, number> = { [settings.baseCurrency]: 1 / newBaseRate };
+  Object.entries(settings.rates).forEach(([code, rate]) => {
+    if (code !== baseCurrency) rates[code] = rate / newBaseRate;
+  });
+  return { ...settings, baseCurrency, rates };
+};
+
+const isValidRate = (rate: unknown): rate is number => typeof rate === 'number' && isFinite(rate) && rate > 0;
+
+/**
+ * Parse an exchange-rate file.
+ * JSON: `{ "base": "USD", "rates": { "EUR": 1.08 } }` or a flat `{ "EUR": 1.08 }`.
+ * CSV: one `code,rate` pair per line, an optional header line is ignored.
+ * Rates are read the way ECB, exchangerate.host and Open Exchange Rates publish them:
+ * units of the currency per one unit of `base` (defaults to the current base currency),
+ * so `"EUR": 1.08` means 1 USD = 1.08 EUR. They are inverted into this app's
+ * "1 unit of the currency in the base currency" form and moved onto the current base.
+ */
+export const parseRatesFile = (text: string, fileName: string, settings: CurrencyPreferences): Record<string, number> => {
+  let fileBase = settings.baseCurrency;
+  const parsed: Record<string, number> = {};
+
+  if (fileName.toLowerCase().endsWith('.json') || text.trim().startsWith('{')) {
+    const data = JSON.parse(text);
+    const rates = data && typeof data.rates === 'object' ? data.rates : data;
+    if (data && typeof data.base === 'string') fileBase = data.base.toUpperCase();
+    Object.entries(rates || {}).forEach(([code, rate]) => {
+      if (code !== 'base' && isValidRate(rate)) parsed[code.toUpperCase()] = rate;
+    });
+  } else {
+    text.split(/\r?\n/).forEach(line => {
+      const [code, rate] = line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, ''));
+      const value = Number(rate);
+      if (/^[A-Za-z]{3}$/.test(code || '') && isValidRate(value)) parsed[code.toUpperCase()] = value;
+    });
+  }
+
+  if (Object.keys(parsed).length === 0) {
+    throw new Error('No exchange rates found in file');
+  }
+
+  // Units of our base currency per one unit of the file's base
+  const basePerFileBase = fileBase === settings.baseCurrency ? 1 : parsed[settings.baseCurrency];
+  if (!basePerFileBase) {
+    throw new Error(`The file's rates are quoted in ${fileBase} and don't include ${settings.baseCurrency}`);
+  }
+  // 1 unit of `code` is worth 1 / rate of the file's base, i.e. basePerFileBase / rate of ours
+  const rates: Record<string, number> = {};
+  Object.entries(parsed).forEach(([code, rate]) => {
+    if (code !== settings.baseCurrency) rates[code] = basePerFileBase / rate;
+  });
+  if (fileBase !== settings.baseCurrency) rates[fileBase] = basePerFileBase;
+  return rates;
+};
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Jar,
+  TransactionRecord,
+  changeJarCurrency,
+  checkConsistency,
+  deposit,
+  depositWithOverflow,
+  getLedgerTotals,
+  getProgress,
+  withdraw,
+} from './domain';
+
+const jar = (overrides: Partial<Jar> = {}): Jar => ({
+  id: 1,
+  name: 'Holiday',
+  target: 10000,
+  saved: 0,
+  streak: 0,
+  withdrawn: 0,
+  records: [],
+  currency: 'USD',
+  ...overrides,
+});
+
+const record = (type: TransactionRecord['type'], amount: number, id = amount): TransactionRecord => ({
+  id,
+  type,
+  amount,
+  date: new Date(2024, 0, 1),
+});
+
+describe('getLedgerTotals', () => {
+  it('nets deposits against withdrawals and overflow, counting only withdrawals as withdrawn', () => {
+    expect(getLedgerTotals([record('saved', 5000), record('withdrawn', 1200), record('overflow', 300)])).toEqual({
+      saved: 3500,
+      withdrawn: 1200,
+    });
+  });
+
+  it('is zero for an empty ledger', () => {
+    expect(getLedgerTotals()).toEqual({ saved: 0, withdrawn: 0 });
+  });
+});
+
+describe('deposit', () => {
+  it('records the deposit and derives the balance from the ledger', () => {
+    const { jar: updated } = deposit(jar({ saved: 2000, records: [record('saved', 2000)] }), 1500);
+    expect(updated.saved).toBe(3500);
+    expect(updated.records).toHaveLength(2);
+  });
+
+  it('reports reaching the target only on the deposit that crosses it', () => {
+    const before = jar({ saved: 9000, records: [record('saved', 9000)] });
+    const crossing = deposit(before, 1000);
+    expect(crossing.reachedTarget).toBe(true);
+    expect(deposit(crossing.jar, 500).reachedTarget).toBe(false);
+  });
+});
+
+describe('depositWithOverflow', () => {
+  it('moves the surplus above the target to the unallocated pool', () => {
+    const full = jar({ saved: 9000, records: [record('saved', 9000)], overflowPolicy: 'unallocated' });
+    const result = depositWithOverflow([full], 1, 2500);
+    expect(result.jars[0].saved).toBe(10000);
+    expect(result.unallocated).toEqual([expect.objectContaining({ amount: 1500, currency: 'USD', jarId: 1 })]);
+    expect(result.overflow).toEqual({ amount: 1500, to: 'unallocated' });
+  });
+
+  it('rolls the surplus into another jar in the same currency', () => {
+    const full = jar({ saved: 10000, records: [record('saved', 10000)], overflowPolicy: 'rollover', rolloverJarId: 2 });
+    const next = jar({ id: 2, name: 'Car' });
+    const result = depositWithOverflow([full, next], 1, 700);
+    expect(result.jars.find(j => j.id === 1)!.saved).toBe(10000);
+    expect(result.jars.find(j => j.id === 2)!.saved).toBe(700);
+    expect(result.jars.find(j => j.id === 2)!.records![0].rolloverFrom).toBe(1);
+  });
+
+  it('keeps the surplus when the rollover jar uses another currency', () => {
+    const full = jar({ saved: 10000, records: [record('saved', 10000)], overflowPolicy: 'rollover', rolloverJarId: 2 });
+    const result = depositWithOverflow([full, jar({ id: 2, currency: 'EUR' })], 1, 700);
+    expect(result.jars.find(j => j.id === 1)!.saved).toBe(10700);
+    expect(result.overflow).toBeUndefined();
+  });
+});
+
+describe('withdraw', () => {
+  it('takes out no more than the balance', () => {
+    const updated = withdraw(jar({ saved: 800, records: [record('saved', 800)] }), 1000);
+    expect(updated.saved).toBe(0);
+    expect(updated.withdrawn).toBe(800);
+  });
+
+  it('leaves an empty jar unchanged', () => {
+    const empty = jar();
+    expect(withdraw(empty, 100)).toBe(empty);
+  });
+});
+
+describe('getProgress', () => {
+  it('is a percentage of the target, and zero without one', () => {
+    expect(getProgress(jar({ saved: 2500 }))).toBe(25);
+    expect(getProgress(jar({ saved: 2500, target: 0 }))).toBe(0);
+  });
+});
+
+describe('changeJarCurrency', () => {
+  it('converts the target and every record, then derives the balance again', () => {
+    const converted = changeJarCurrency(
+      jar({ target: 10000, saved: 1050, records: [record('saved', 1050)] }),
+      'JPY',
+      150
+    );
+    expect(converted.currency).toBe('JPY');
+    expect(converted.target).toBe(15000);
+    expect(converted.records![0].amount).toBe(1575);
+    expect(converted.saved).toBe(1575);
+  });
+});
+
+describe('checkConsistency', () => {
+  it('flags jars whose stored counters disagree with their records', () => {
+    const issues = checkConsistency([jar({ saved: 999, records: [record('saved', 1000)] }), jar({ id: 2 })]);
+    expect(issues).toEqual([expect.objectContaining({ jarId: 1, derived: { saved: 1000, withdrawn: 0 } })]);
+  });
+});
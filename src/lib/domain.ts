@@ -0,0 +1,429 @@
+/**
+ * Domain model shared by the page, storage, backup and chart components,
+ * plus the pure balance math behind deposits and withdrawals.
+ * Every amount is an integer number of minor units of the jar's currency (see ./currency).
+ * Nothing in here touches React or storage so it can be reasoned about in isolation.
+ */
+import { getStreakInfo } from './streaks';
+import { convertMinorUnits, toCurrencyCode } from './currency';
+
+export interface JarNote {
+  id: number;
+  text: string;
+  color: string;
+}
+
+/**
+ * What happens to the part of a deposit that takes a jar past its target:
+ * `keep` leaves it in the jar, `rollover` moves it to `rolloverJarId`,
+ * `unallocated` moves it to the general unallocated pool.
+ */
+export type OverflowPolicy = 'keep' | 'rollover' | 'unallocated';
+
+/** Why money was taken out of a jar, chosen when withdrawing */
+export type WithdrawalReason = 'emergency' | 'bills' | 'planned' | 'treat' | 'impulse' | 'other';
+
+export interface TransactionRecord {
+  id: number;
+  /** `overflow` is surplus moved out of a full jar; it lowers the balance but isn't a withdrawal */
+  type: 'saved' | 'withdrawn' | 'overflow';
+  amount: number;
+  date: Date;
+  /** Destination of an overflow record: a jar id or the unallocated pool */
+  overflowTo?: number | 'unallocated';
+  /** Source jar of a deposit that was rolled over from a full jar */
+  rolloverFrom?: number;
+  /** Set on deposits allocated from the unallocated pool */
+  fromUnallocated?: boolean;
+  /** Set on deposits generated by a recurring contribution rule */
+  automatic?: boolean;
+  ruleId?: number;
+  /** Optional reason and note given for a withdrawal */
+  reason?: WithdrawalReason;
+  note?: string;
+  /** Set on records brought in from a CSV file (see ./csvImport) */
+  imported?: boolean;
+}
+
+/**
+ * A withdrawal waiting out the jar's cooling-off period (see ./withdrawals)
+ */
+export interface PendingWithdrawal {
+  id: number;
+  amount: number;
+  /** ISO timestamps */
+  requestedAt: string;
+  releaseAt: string;
+  reason?: WithdrawalReason;
+  note?: string;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+/** Calendar period a jar's saving streak is measured in */
+export type StreakCadence = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * A scheduled contribution. Occurrences are counted from `startDate`
+ * (yyyy-MM-dd, local time) and generated on launch up to the current day.
+ */
+export interface RecurringRule {
+  id: number;
+  amount: number;
+  frequency: RecurrenceFrequency;
+  startDate: string;
+  paused?: boolean;
+  /** Occurrences (yyyy-MM-dd) the user chose to skip */
+  skippedDates?: string[];
+  /** Last occurrence (yyyy-MM-dd) that was generated, skipped or passed while paused */
+  lastRunDate?: string;
+}
+
+/**
+ * An intermediate goal inside a jar, e.g. "Deposit paid" at 2,000.
+ * `reachedAt` is set the first time the balance gets there and stays set afterwards.
+ */
+export interface Milestone {
+  id: number;
+  name: string;
+  amount: number;
+  /** Optional date (yyyy-MM-dd) the milestone should be reached by */
+  targetDate?: string;
+  reachedAt?: string;
+}
+
+export interface Jar {
+  id: number;
+  name: string;
+  target: number;
+  saved: number;
+  /** Cached current streak, recomputed from the records by ./streaks on every deposit */
+  streak: number;
+  streakCadence?: StreakCadence;
+  withdrawn: number;
+  notes?: JarNote[];
+  records?: TransactionRecord[];
+  /** ISO 4217 code (USD when missing) */
+  currency?: string;
+  categoryId?: number;
+  targetDate?: string;
+  createdAt?: string;
+  overflowPolicy?: OverflowPolicy;
+  rolloverJarId?: number;
+  recurring?: RecurringRule[];
+  /** Hours a withdrawal waits before it leaves the jar; 0 or missing withdraws immediately */
+  coolingOffHours?: number;
+  pendingWithdrawals?: PendingWithdrawal[];
+  milestones?: Milestone[];
+}
+
+/**
+ * Money parked in the unallocated pool. Positive entries come from overflowing
+ * jars, negative entries from allocating the pool to a jar.
+ */
+export interface UnallocatedEntry {
+  id: number;
+  amount: number;
+  currency: string;
+  date: Date;
+  jarId: number;
+}
+
+export interface Category {
+  id: number;
+  name: string;
+  icon: string;
+}
+
+export interface Note {
+  id: number;
+  text: string;
+  color: string;
+}
+
+export interface JarSummary {
+  name: string;
+  saved: number;
+  withdrawn: number;
+}
+
+export interface DepositResult {
+  jar: Jar;
+  /** True when this deposit took the jar from below its target to the target */
+  reachedTarget: boolean;
+}
+
+export interface OverflowDepositResult {
+  jars: Jar[];
+  /** New entries for the unallocated pool, if the surplus went there */
+  unallocated: UnallocatedEntry[];
+  reachedTarget: boolean;
+  /** Where the surplus went, if any */
+  overflow?: { amount: number; to: number | 'unallocated' };
+}
+
+export interface LedgerTotals {
+  saved: number;
+  withdrawn: number;
+}
+
+export interface ConsistencyIssue {
+  jarId: number;
+  jarName: string;
+  stored: LedgerTotals;
+  derived: LedgerTotals;
+}
+
+let lastRecordId = 0;
+
+/**
+ * Record ids are timestamps, bumped when several records are created in the same millisecond
+ */
+export const nextRecordId = (date: Date = new Date()): number => {
+  lastRecordId = Math.max(lastRecordId + 1, date.getTime());
+  return lastRecordId;
+};
+
+const createRecord = (
+  type: TransactionRecord['type'],
+  amount: number,
+  date: Date,
+  extra: Partial<TransactionRecord> = {}
+): TransactionRecord => ({
+  id: nextRecordId(date),
+  type,
+  amount,
+  date,
+  ...extra,
+});
+
+const byDate = (a: TransactionRecord, b: TransactionRecord) =>
+  new Date(a.date).getTime() - new Date(b.date).getTime();
+
+/**
+ * Derive balances from the transaction ledger.
+ * `saved` is the current balance (deposits minus withdrawals), `withdrawn` the total taken out.
+ */
+export const getLedgerTotals = (records: TransactionRecord[] = []): LedgerTotals =>
+  records.reduce(
+    (totals, record) =>
+      record.type === 'saved'
+        ? { ...totals, saved: totals.saved + record.amount }
+        : record.type === 'overflow'
+          ? { ...totals, saved: totals.saved - record.amount }
+          : { saved: totals.saved - record.amount, withdrawn: totals.withdrawn + record.amount },
+    { saved: 0, withdrawn: 0 }
+  );
+
+/**
+ * Replace a jar's stored counters with the totals derived from its records
+ */
+export const recomputeTotals = (jar: Jar): Jar => {
+  const records = [...(jar.records || [])].sort(byDate);
+  return { ...jar, records, ...getLedgerTotals(records) };
+};
+
+/**
+ * Add money to a jar. The full amount is recorded and counted towards the balance.
+ */
+export const deposit = (
+  jar: Jar,
+  amount: number,
+  date: Date = new Date(),
+  extra: Partial<TransactionRecord> = {}
+): DepositResult => {
+  const updated = recomputeTotals({
+    ...jar,
+    records: [...(jar.records || []), createRecord('saved', amount, date, extra)],
+  });
+  return {
+    jar: { ...updated, streak: getStreakInfo(updated, date).current },
+    reachedTarget: updated.saved >= jar.target && jar.saved < jar.target,
+  };
+};
+
+/**
+ * Add money to a jar and apply its overflow policy to any surplus beyond the target.
+ * Rolled-over money lands in the destination jar as a plain deposit and does not
+ * overflow again, so a chain of full jars can never loop.
+ */
+export const depositWithOverflow = (
+  jars: Jar[],
+  jarId: number,
+  amount: number,
+  date: Date = new Date(),
+  extra: Partial<TransactionRecord> = {}
+): OverflowDepositResult => {
+  const jar = jars.find(j => j.id === jarId);
+  if (!jar) return { jars, unallocated: [], reachedTarget: false };
+
+  const { jar: deposited, reachedTarget } = deposit(jar, amount, date, extra);
+  const surplus = Math.min(amount, Math.max(deposited.saved - jar.target, 0));
+  const policy = jar.overflowPolicy || 'keep';
+  const rolloverJar = jars.find(j => j.id === jar.rolloverJarId && j.id !== jar.id);
+  const canRollover = rolloverJar && toCurrencyCode(rolloverJar.currency) === toCurrencyCode(jar.currency);
+
+  const replace = (list: Jar[], updated: Jar) => list.map(j => (j.id === updated.id ? updated : j));
+
+  if (surplus <= 0 || policy === 'keep' || (policy === 'rollover' && !canRollover)) {
+    return { jars: replace(jars, deposited), unallocated: [], reachedTarget };
+  }
+
+  const to = policy === 'rollover' ? rolloverJar!.id : 'unallocated';
+  const source = recomputeTotals({
+    ...deposited,
+    records: [...(deposited.records || []), createRecord('overflow', surplus, date, { overflowTo: to })],
+  });
+  let updatedJars = replace(jars, source);
+
+  if (to === 'unallocated') {
+    const entry: UnallocatedEntry = {
+      id: nextRecordId(date),
+      amount: surplus,
+      currency: toCurrencyCode(jar.currency),
+      date,
+      jarId: jar.id,
+    };
+    return { jars: updatedJars, unallocated: [entry], reachedTarget, overflow: { amount: surplus, to } };
+  }
+
+  const destination = recomputeTotals({
+    ...rolloverJar!,
+    records: [...(rolloverJar!.records || []), createRecord('saved', surplus, date, { rolloverFrom: jar.id })],
+  });
+  updatedJars = replace(updatedJars, destination);
+  return { jars: updatedJars, unallocated: [], reachedTarget, overflow: { amount: surplus, to } };
+};
+
+/**
+ * Balance of the unallocated pool per currency
+ */
+export const getUnallocatedBalances = (entries: UnallocatedEntry[]): Record<string, number> =>
+  entries.reduce<Record<string, number>>((balances, entry) => {
+    const currency = toCurrencyCode(entry.currency);
+    balances[currency] = (balances[currency] || 0) + entry.amount;
+    return balances;
+  }, {});
+
+/**
+ * Move the whole unallocated balance of the jar's currency into the jar
+ */
+export const allocateUnallocated = (
+  jar: Jar,
+  entries: UnallocatedEntry[],
+  date: Date = new Date()
+): { jar: Jar; entry: UnallocatedEntry } | null => {
+  const currency = toCurrencyCode(jar.currency);
+  const amount = getUnallocatedBalances(entries)[currency] || 0;
+  if (amount <= 0) return null;
+  return {
+    jar: recomputeTotals({
+      ...jar,
+      records: [...(jar.records || []), createRecord('saved', amount, date, { fromUnallocated: true })],
+    }),
+    entry: { id: nextRecordId(date), amount: -amount, currency, date, jarId: jar.id },
+  };
+};
+
+/**
+ * Take money out of a jar. Only what is actually in the jar can be withdrawn,
+ * and the record holds the amount that really left it.
+ */
+export const withdraw = (
+  jar: Jar,
+  amount: number,
+  date: Date = new Date(),
+  details: Pick<TransactionRecord, 'reason' | 'note'> = {}
+): Jar => {
+  const available = Math.max(jar.saved, 0);
+  const taken = Math.min(amount, available);
+  if (taken <= 0) return jar;
+  return recomputeTotals({
+    ...jar,
+    records: [...(jar.records || []), createRecord('withdrawn', taken, date, details)],
+  });
+};
+
+/**
+ * Add already-dated records, e.g. from an import, and recompute the jar's totals and streak.
+ * Ids come from the current time so they can't clash with records created at the same past moment.
+ */
+export const addRecords = (jar: Jar, records: Omit<TransactionRecord, 'id'>[]): Jar => {
+  const updated = recomputeTotals({
+    ...jar,
+    records: [...(jar.records || []), ...records.map(record => ({ ...record, id: nextRecordId() }))],
+  });
+  return { ...updated, streak: getStreakInfo(updated).current };
+};
+
+/**
+ * Change the amount or date of a past record and recompute the jar's totals
+ */
+export const updateRecord = (
+  jar: Jar,
+  recordId: number,
+  changes: Partial<Pick<TransactionRecord, 'amount' | 'date' | 'type'>>
+): Jar =>
+  recomputeTotals({
+    ...jar,
+    records: (jar.records || []).map(record => (record.id === recordId ? { ...record, ...changes } : record)),
+  });
+
+/**
+ * Remove a record from the ledger and recompute the jar's totals
+ */
+export const deleteRecord = (jar: Jar, recordId: number): Jar =>
+  recomputeTotals({
+    ...jar,
+    records: (jar.records || []).filter(record => record.id !== recordId),
+  });
+
+/**
+ * Move a jar to another currency. The target, every record, recurring deposit, waiting
+ * withdrawal and milestone is converted at `rate` (units of the new currency per unit of the old one),
+ * then the balances are derived again from the converted records.
+ */
+export const changeJarCurrency = (jar: Jar, currency: string, rate: number): Jar => {
+  const convertAmount = (amount: number) => convertMinorUnits(amount, jar.currency, currency, rate);
+  const withAmount = <T extends { amount: number }>(item: T): T => ({ ...item, amount: convertAmount(item.amount) });
+  return recomputeTotals({
+    ...jar,
+    currency,
+    target: convertAmount(jar.target),
+    records: (jar.records || []).map(withAmount),
+    ...(jar.recurring ? { recurring: jar.recurring.map(withAmount) } : {}),
+    ...(jar.pendingWithdrawals ? { pendingWithdrawals: jar.pendingWithdrawals.map(withAmount) } : {}),
+    ...(jar.milestones ? { milestones: jar.milestones.map(withAmount) } : {}),
+  });
+};
+
+/**
+ * Find jars whose stored counters disagree with their transaction records
+ */
+export const checkConsistency = (jars: Jar[]): ConsistencyIssue[] =>
+  jars.flatMap(jar => {
+    const derived = getLedgerTotals(jar.records);
+    const matches = derived.saved === jar.saved && derived.withdrawn === jar.withdrawn;
+    return matches
+      ? []
+      : [{ jarId: jar.id, jarName: jar.name, stored: { saved: jar.saved, withdrawn: jar.withdrawn }, derived }];
+  });
+
+/**
+ * Repair every inconsistent jar by recomputing its counters from the ledger
+ */
+export const repairJars = (jars: Jar[]): Jar[] => {
+  const inconsistent = new Set(checkConsistency(jars).map(issue => issue.jarId));
+  return jars.map(jar => (inconsistent.has(jar.id) ? recomputeTotals(jar) : jar));
+};
+
+/**
+ * Progress towards the target as a percentage
+ */
+export const getProgress = (jar: Jar): number => (jar.target > 0 ? (jar.saved / jar.target) * 100 : 0);
+
+export const summarizeJar = (jar: Jar): JarSummary => ({
+  name: jar.name.length > 10 ? jar.name.substring(0, 10) + '...' : jar.name,
+  saved: jar.saved,
+  withdrawn: jar.withdrawn,
+});
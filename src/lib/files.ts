@@ -0,0 +1,31 @@
+/**
+ * Saving generated files: the Documents folder on native platforms, a browser download on the web.
+ */
+import { Capacitor } from '@capacitor/core';
+import { Directory, Encoding, Filesystem } from '@capacitor/filesystem';
+
+/** Where a saved file ended up, so the caller can tell the user */
+export type SaveLocation = 'documents' | 'download';
+
+export const saveTextFile = async (fileName: string, contents: string, mimeType: string): Promise<SaveLocation> => {
+  if (Capacitor.isNativePlatform()) {
+    await Filesystem.writeFile({
+      path: fileName,
+      data: contents,
+      directory: Directory.Documents,
+      encoding: Encoding.UTF8,
+    });
+    return 'documents';
+  }
+
+  const blob = new Blob([contents], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+  return 'download';
+};
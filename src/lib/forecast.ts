@@ -0,0 +1,199 @@
+/**
+ * Goal forecasting from a jar's actual saving pace.
+ * Manual saving is measured from the transaction history, both over the jar's whole life
+ * and over the last few weeks, and active recurring rules add their scheduled amount on top.
+ * Automatic deposits are left out of the history so recurring money isn't counted twice.
+ * Rates are in minor units per day.
+ */
+import { addDays, differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
+import { Jar, RecurringRule, TransactionRecord } from './domain';
+
+/** Days that count as the "recent" trend */
+export const RECENT_WINDOW_DAYS = 30;
+
+// Shorter histories are stretched to this many days so a single deposit isn't read as a daily habit
+const MIN_HISTORY_DAYS = 14;
+// Completion dates within this many days of the target date count as on track
+const ON_TRACK_MARGIN_DAYS = 3;
+// Paces that need longer than this are treated as never reaching the goal
+const MAX_FORECAST_DAYS = 365 * 50;
+// Charts stop here so one very slow scenario doesn't flatten the others
+const MAX_CHART_DAYS = 365 * 5;
+
+export type ScheduleStatus = 'ahead' | 'on-track' | 'behind';
+
+export interface SavingPace {
+  /** Manual net saving over the jar's whole history */
+  average: number;
+  /** Manual net saving over the last RECENT_WINDOW_DAYS */
+  recent: number;
+  /** Scheduled by active recurring rules */
+  recurring: number;
+}
+
+export interface ForecastScenario {
+  rate: number;
+  /** Null when the goal is never reached at this pace */
+  completion: Date | null;
+}
+
+export interface Forecast {
+  remaining: number;
+  pace: SavingPace;
+  expected: ForecastScenario;
+  optimistic: ForecastScenario;
+  pessimistic: ForecastScenario;
+  /** Only present when the jar has a target date and isn't complete yet */
+  schedule?: {
+    status: ScheduleStatus;
+    /** Days the expected completion lands before (positive) or after (negative) the target date; null if never */
+    days: number | null;
+    /** Daily saving needed from today to make the target date */
+    requiredRate: number;
+  };
+}
+
+export interface ForecastPoint {
+  /** Timestamp of the day, for a time-scaled axis */
+  time: number;
+  balance?: number;
+  expected?: number;
+  optimistic?: number;
+  pessimistic?: number;
+}
+
+// Net effect of a manual record on the balance. Automatic deposits are covered by the recurring
+// pace, and overflow moved out of a full jar or rolled over into another isn't the jar's own saving.
+const manualFlow = (record: TransactionRecord): number => {
+  if (record.type === 'overflow') return 0;
+  if (record.type === 'saved') return record.automatic || record.rolloverFrom !== undefined ? 0 : record.amount;
+  return -record.amount;
+};
+
+const ruleDailyRate = (rule: RecurringRule): number => {
+  if (rule.paused || rule.amount <= 0) return 0;
+  switch (rule.frequency) {
+    case 'daily':
+      return rule.amount;
+    case 'weekly':
+      return rule.amount / 7;
+    case 'monthly':
+      return (rule.amount * 12) / 365;
+  }
+};
+
+export const getSavingPace = (jar: Jar, now: Date = new Date()): SavingPace => {
+  const today = startOfDay(now);
+  const records = jar.records || [];
+  const firstDate = records.reduce<Date | null>((first, record) => {
+    const date = new Date(record.date);
+    return !first || date < first ? date : first;
+  }, jar.createdAt ? new Date(jar.createdAt) : null);
+
+  const historyDays = Math.max(firstDate ? differenceInCalendarDays(today, firstDate) + 1 : 0, MIN_HISTORY_DAYS);
+  const recentStart = addDays(today, -(RECENT_WINDOW_DAYS - 1));
+  const total = records.reduce((sum, record) => sum + manualFlow(record), 0);
+  const recentTotal = records
+    .filter(record => new Date(record.date) >= recentStart)
+    .reduce((sum, record) => sum + manualFlow(record), 0);
+
+  return {
+    average: total / historyDays,
+    recent: recentTotal / Math.min(historyDays, RECENT_WINDOW_DAYS),
+    recurring: (jar.recurring || []).reduce((sum, rule) => sum + ruleDailyRate(rule), 0),
+  };
+};
+
+const projectCompletion = (remaining: number, rate: number, today: Date): Date | null => {
+  if (remaining <= 0) return today;
+  if (rate <= 0) return null;
+  const days = Math.ceil(remaining / rate);
+  return days > MAX_FORECAST_DAYS ? null : addDays(today, days);
+};
+
+/**
+ * Project when a jar reaches its target. The expected pace blends the long-run average
+ * with the recent trend; the optimistic and pessimistic ones take the better and worse of the two.
+ */
+export const getForecast = (jar: Jar, now: Date = new Date()): Forecast => {
+  const today = startOfDay(now);
+  const remaining = Math.max(jar.target - jar.saved, 0);
+  const pace = getSavingPace(jar, now);
+  const scenario = (manualRate: number): ForecastScenario => {
+    const rate = manualRate + pace.recurring;
+    return { rate, completion: projectCompletion(remaining, rate, today) };
+  };
+
+  const forecast: Forecast = {
+    remaining,
+    pace,
+    expected: scenario((pace.average + pace.recent) / 2),
+    optimistic: scenario(Math.max(pace.average, pace.recent)),
+    pessimistic: scenario(Math.min(pace.average, pace.recent)),
+  };
+
+  if (jar.targetDate && remaining > 0) {
+    const targetDate = startOfDay(parseISO(jar.targetDate));
+    const daysLeft = differenceInCalendarDays(targetDate, today);
+    const completion = forecast.expected.completion;
+    const days = completion ? differenceInCalendarDays(targetDate, completion) : null;
+    forecast.schedule = {
+      status:
+        days === null || days < -ON_TRACK_MARGIN_DAYS ? 'behind' : days > ON_TRACK_MARGIN_DAYS ? 'ahead' : 'on-track',
+      days,
+      requiredRate: daysLeft > 0 ? remaining / daysLeft : remaining,
+    };
+  }
+
+  return forecast;
+};
+
+/**
+ * Balance history up to today followed by the three projections, capped at the target.
+ * Projections run until the slowest scenario that finishes (or `fallbackDays` if none do),
+ * but no further than five years out.
+ */
+export const getForecastSeries = (
+  jar: Jar,
+  forecast: Forecast,
+  now: Date = new Date(),
+  points = 24,
+  fallbackDays = 90
+): ForecastPoint[] => {
+  const today = startOfDay(now);
+  const records = [...(jar.records || [])].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  // End-of-day balances for every day with activity
+  const byDay = new Map<number, number>();
+  let balance = 0;
+  records.forEach(record => {
+    balance += record.type === 'saved' ? record.amount : -record.amount;
+    byDay.set(startOfDay(new Date(record.date)).getTime(), balance);
+  });
+  const history: ForecastPoint[] = [...byDay.entries()]
+    .filter(([time]) => time < today.getTime())
+    .map(([time, value]) => ({ time, balance: value }));
+
+  const completions = [forecast.expected, forecast.optimistic, forecast.pessimistic]
+    .map(scenario => scenario.completion)
+    .filter((date): date is Date => date !== null);
+  const horizon = Math.min(
+    Math.max(
+      completions.length > 0 ? Math.max(...completions.map(date => differenceInCalendarDays(date, today))) : fallbackDays,
+      1
+    ),
+    MAX_CHART_DAYS
+  );
+
+  const project = (rate: number, days: number) => Math.min(jar.saved + Math.max(rate, 0) * days, Math.max(jar.target, jar.saved));
+  const steps = [...new Set(Array.from({ length: points + 1 }, (_, index) => Math.round((horizon * index) / points)))];
+  const projection: ForecastPoint[] = steps.map(days => ({
+    time: addDays(today, days).getTime(),
+    ...(days === 0 ? { balance: jar.saved } : {}),
+    expected: Math.round(project(forecast.expected.rate, days)),
+    optimistic: Math.round(project(forecast.optimistic.rate, days)),
+    pessimistic: Math.round(project(forecast.pessimistic.rate, days)),
+  }));
+
+  return [...history, ...projection];
+};
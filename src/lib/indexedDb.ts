@@ -0,0 +1,119 @@
+/**
+ * IndexedDB backend for the storage API.
+ * Envelopes go into a key/value store and transaction records into their own
+ * store keyed by [jarId, id], so a new deposit is a single row write instead of
+ * re-serializing every jar.
+ */
+import { StorageAdapter, StoredRecord } from './storageAdapter';
+
+const DB_NAME = 'jarify';
+const DB_VERSION = 1;
+const KV_STORE = 'kv';
+const RECORD_STORE = 'records';
+const MIGRATED_FLAG = '__migratedFromLocalStorage';
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolve once a transaction commits, reject if it aborts
+ */
+const completion = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(KV_STORE)) {
+        db.createObjectStore(KV_STORE);
+      }
+      if (!db.objectStoreNames.contains(RECORD_STORE)) {
+        const records = db.createObjectStore(RECORD_STORE, { keyPath: ['jarId', 'id'] });
+        records.createIndex('jarId', 'jarId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  });
+
+const createAdapter = (db: IDBDatabase): StorageAdapter => {
+  const run = async (
+    storeName: string,
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => void
+  ): Promise<void> => {
+    const transaction = db.transaction(storeName, mode);
+    work(transaction.objectStore(storeName));
+    await completion(transaction);
+  };
+
+  return {
+    name: 'indexedDB',
+
+    getItem: async key => {
+      const value = await promisify(db.transaction(KV_STORE).objectStore(KV_STORE).get(key));
+      return typeof value === 'string' ? value : null;
+    },
+
+    setItem: (key, value) => run(KV_STORE, 'readwrite', store => store.put(value, key)),
+
+    removeItem: key => run(KV_STORE, 'readwrite', store => store.delete(key)),
+
+    getRecords: () =>
+      promisify(db.transaction(RECORD_STORE).objectStore(RECORD_STORE).getAll()) as Promise<StoredRecord[]>,
+
+    putRecords: async records => {
+      if (records.length === 0) return;
+      await run(RECORD_STORE, 'readwrite', store => records.forEach(record => store.put(record)));
+    },
+
+    deleteRecords: async keys => {
+      if (keys.length === 0) return;
+      await run(RECORD_STORE, 'readwrite', store => keys.forEach(({ jarId, id }) => store.delete([jarId, id])));
+    },
+
+    clearRecords: () => run(RECORD_STORE, 'readwrite', store => store.clear()),
+  };
+};
+
+/**
+ * Copy the existing localStorage data into IndexedDB the first time it is opened.
+ * The localStorage copies are left in place so the fallback backend still has
+ * the pre-migration data if IndexedDB later becomes unavailable.
+ */
+const migrateFromLocalStorage = async (adapter: StorageAdapter, keys: string[], source: StorageAdapter) => {
+  if ((await adapter.getItem(MIGRATED_FLAG)) !== null) return;
+
+  for (const key of keys) {
+    const value = await source.getItem(key);
+    if (value !== null) await adapter.setItem(key, value);
+  }
+  await adapter.putRecords(await source.getRecords());
+  await adapter.setItem(MIGRATED_FLAG, new Date().toISOString());
+};
+
+/**
+ * Open the IndexedDB backend, migrating data from `source` on first use.
+ * Rejects when IndexedDB is unavailable (private browsing, old WebViews).
+ */
+export const openIndexedDbAdapter = async (keys: string[], source: StorageAdapter): Promise<StorageAdapter> => {
+  if (typeof indexedDB === 'undefined') {
+    throw new Error('IndexedDB is not available');
+  }
+  const adapter = createAdapter(await openDatabase());
+  await migrateFromLocalStorage(adapter, keys, source);
+  return adapter;
+};
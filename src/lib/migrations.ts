@@ -0,0 +1,125 @@
+import { toCurrencyCode, toMinorUnits } from './currency';
+
+/**
+ * Versioned storage envelopes and the ordered migrations that upgrade them.
+ * Each migration list is indexed by the version it upgrades *from*:
+ * `migrations[0]` turns a v0 payload into v1, `migrations[1]` v1 into v2, etc.
+ * Data written before envelopes existed is treated as v0.
+ */
+
+export interface Envelope<T = unknown> {
+  version: number;
+  data: T;
+}
+
+export type Migration = (data: unknown) => unknown;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown, fallback = 0): unknown => {
+  if (value === undefined || value === null || value === '') return fallback;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return value;
+};
+
+const toArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+// Jars used to store a display symbol ("$", "€") or free text; amounts are now formatted from ISO codes
+const withCurrencyCode = (item: unknown): unknown =>
+  isRecord(item) && typeof item.currency === 'string' ? { ...item, currency: toCurrencyCode(item.currency) } : item;
+
+// Floating-point amounts become integer minor units of the given currency
+const toMinor = (value: unknown, currency: unknown): unknown =>
+  typeof value === 'number' ? toMinorUnits(value, typeof currency === 'string' ? currency : undefined) : value;
+
+const withMinorAmount = (item: unknown, currency: unknown): unknown =>
+  isRecord(item) ? { ...item, amount: toMinor(item.amount, currency) } : item;
+
+/**
+ * Wrap raw stored JSON in an envelope, treating unversioned data as v0
+ */
+export const readEnvelope = (raw: unknown): Envelope => {
+  if (isRecord(raw) && typeof raw.version === 'number' && 'data' in raw) {
+    return { version: raw.version, data: raw.data };
+  }
+  return { version: 0, data: raw };
+};
+
+/**
+ * Apply every migration newer than the envelope's version, in order
+ */
+export const runMigrations = (envelope: Envelope, migrations: Migration[]): Envelope => {
+  let { version, data } = envelope;
+  while (version < migrations.length) {
+    data = migrations[version](data);
+    version += 1;
+  }
+  return { version, data };
+};
+
+export const jarMigrations: Migration[] = [
+  // v0 -> v1: legacy arrays may carry numeric strings and missing collections
+  data =>
+    toArray(data).map(jar => {
+      if (!isRecord(jar)) return jar;
+      return {
+        ...jar,
+        target: toNumber(jar.target),
+        saved: toNumber(jar.saved),
+        streak: toNumber(jar.streak),
+        withdrawn: toNumber(jar.withdrawn),
+        notes: toArray(jar.notes),
+        records: toArray(jar.records).map(record =>
+          isRecord(record) ? { ...record, amount: toNumber(record.amount) } : record
+        ),
+      };
+    }),
+  // v1 -> v2: currency symbols become ISO 4217 codes
+  data => toArray(data).map(withCurrencyCode),
+  // v2 -> v3: amounts are stored as integer minor units
+  data =>
+    toArray(data).map(jar => {
+      if (!isRecord(jar)) return jar;
+      return {
+        ...jar,
+        target: toMinor(jar.target, jar.currency),
+        saved: toMinor(jar.saved, jar.currency),
+        withdrawn: toMinor(jar.withdrawn, jar.currency),
+        records: toArray(jar.records).map(record => withMinorAmount(record, jar.currency)),
+        ...(Array.isArray(jar.recurring)
+          ? { recurring: jar.recurring.map(rule => withMinorAmount(rule, jar.currency)) }
+          : {}),
+      };
+    }),
+];
+
+export const categoryMigrations: Migration[] = [
+  // v0 -> v1: categories created before icons were optional
+  data =>
+    toArray(data).map(category =>
+      isRecord(category) ? { ...category, icon: category.icon ?? '' } : category
+    ),
+];
+
+export const noteMigrations: Migration[] = [
+  // v0 -> v1: notes without a color fall back to the default sticky note
+  data =>
+    toArray(data).map(note =>
+      isRecord(note) ? { ...note, color: note.color ?? 'yellow' } : note
+    ),
+];
+
+export const unallocatedMigrations: Migration[] = [
+  // v0 -> v1: only the envelope is new
+  data => data,
+  // v1 -> v2: currency symbols become ISO 4217 codes
+  data => toArray(data).map(withCurrencyCode),
+  // v2 -> v3: amounts are stored as integer minor units
+  data => toArray(data).map(entry => withMinorAmount(entry, isRecord(entry) ? entry.currency : undefined)),
+];
+
+export const scalarMigrations: Migration[] = [
+  // v0 -> v1: only the envelope is new
+  data => data,
+];
@@ -0,0 +1,74 @@
+/**
+ * Milestones: named intermediate goals inside a jar, celebrated once each when the
+ * balance first reaches them.
+ */
+import { Jar, Milestone } from './domain';
+import { toDateKey } from './recurring';
+
+export type MilestoneStatus = 'reached' | 'upcoming' | 'overdue';
+
+export interface ReachedMilestone {
+  jar: Jar;
+  milestone: Milestone;
+}
+
+export interface MilestoneCheckResult {
+  jars: Jar[];
+  /** Milestones reached since the last check, in jar and amount order */
+  reached: ReachedMilestone[];
+}
+
+/**
+ * A jar's milestones from the smallest amount to the largest
+ */
+export const getMilestones = (jar: Jar): Milestone[] =>
+  [...(jar.milestones || [])].sort((a, b) => a.amount - b.amount);
+
+/**
+ * Add a milestone. One the balance already covers counts as reached without a celebration.
+ */
+export const addMilestone = (jar: Jar, milestone: Omit<Milestone, 'id' | 'reachedAt'>, now: Date = new Date()): Jar => ({
+  ...jar,
+  milestones: [
+    ...(jar.milestones || []),
+    { ...milestone, id: now.getTime(), ...(jar.saved >= milestone.amount ? { reachedAt: now.toISOString() } : {}) },
+  ],
+});
+
+export const removeMilestone = (jar: Jar, milestoneId: number): Jar => ({
+  ...jar,
+  milestones: (jar.milestones || []).filter(milestone => milestone.id !== milestoneId),
+});
+
+export const getMilestoneStatus = (milestone: Milestone, now: Date = new Date()): MilestoneStatus => {
+  if (milestone.reachedAt) return 'reached';
+  return milestone.targetDate && milestone.targetDate < toDateKey(now) ? 'overdue' : 'upcoming';
+};
+
+/**
+ * The first milestone that hasn't been reached yet, if any
+ */
+export const getNextMilestone = (jar: Jar): Milestone | undefined =>
+  getMilestones(jar).find(milestone => !milestone.reachedAt);
+
+/**
+ * Stamp every milestone the balance has reached for the first time.
+ * Jars without new milestones are returned unchanged so callers can skip a re-render.
+ */
+export const markReachedMilestones = (jars: Jar[], now: Date = new Date()): MilestoneCheckResult => {
+  const reached: ReachedMilestone[] = [];
+  const updated = jars.map(jar => {
+    const due = getMilestones(jar).filter(milestone => !milestone.reachedAt && jar.saved >= milestone.amount);
+    if (due.length === 0) return jar;
+    const dueIds = new Set(due.map(milestone => milestone.id));
+    const stamped: Jar = {
+      ...jar,
+      milestones: (jar.milestones || []).map(milestone =>
+        dueIds.has(milestone.id) ? { ...milestone, reachedAt: now.toISOString() } : milestone
+      ),
+    };
+    due.forEach(milestone => reached.push({ jar: stamped, milestone }));
+    return stamped;
+  });
+  return { jars: reached.length > 0 ? updated : jars, reached };
+};
@@ -0,0 +1,21 @@
+/**
+ * One-off local notifications for things that happen in the app, like a reached milestone.
+ * The recurring saving reminders are scheduled by the NotificationSettings dialog.
+ */
+import { LocalNotifications } from '@capacitor/local-notifications';
+
+// Notification ids must fit in a 32-bit int; 1 belongs to the saving reminder
+const toNotificationId = (id: number) => (id % (2 ** 31 - 3)) + 2;
+
+/**
+ * Show a notification right away if the user has allowed notifications; otherwise do nothing
+ */
+export const notifyNow = async (id: number, title: string, body: string): Promise<void> => {
+  try {
+    const { display } = await LocalNotifications.checkPermissions();
+    if (display !== 'granted') return;
+    await LocalNotifications.schedule({ notifications: [{ id: toNotificationId(id), title, body }] });
+  } catch (error) {
+    console.warn('Could not show notification:', error);
+  }
+};
@@ -0,0 +1,128 @@
+/**
+ * Recurring contributions: schedule math for `RecurringRule`s and the launch-time
+ * catch-up that turns missed occurrences into automatic deposits.
+ */
+import { addDays, addMonths, addWeeks, format, isAfter, parseISO, startOfDay } from 'date-fns';
+import {
+  Jar,
+  RecurringRule,
+  UnallocatedEntry,
+  depositWithOverflow,
+} from './domain';
+
+export interface CatchUpResult {
+  jars: Jar[];
+  unallocated: UnallocatedEntry[];
+  /** Number of automatic deposits created */
+  generated: number;
+}
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+export const toDateKey = (date: Date) => format(date, DATE_FORMAT);
+
+/**
+ * The nth occurrence of a rule. Months are added to the start date rather than to
+ * the previous occurrence so a rule starting on the 31st doesn't drift to the 28th.
+ */
+const occurrenceAt = (rule: RecurringRule, index: number): Date => {
+  const start = startOfDay(parseISO(rule.startDate));
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(start, index);
+    case 'weekly':
+      return addWeeks(start, index);
+    case 'monthly':
+      return addMonths(start, index);
+  }
+};
+
+/**
+ * Occurrences strictly after `after` (or from the start date) up to and including `until`
+ */
+export const getOccurrences = (rule: RecurringRule, until: Date, after?: string): Date[] => {
+  const end = startOfDay(until);
+  const afterDate = after ? startOfDay(parseISO(after)) : null;
+  const occurrences: Date[] = [];
+  for (let index = 0; ; index++) {
+    const occurrence = occurrenceAt(rule, index);
+    if (isAfter(occurrence, end)) break;
+    if (!afterDate || isAfter(occurrence, afterDate)) occurrences.push(occurrence);
+  }
+  return occurrences;
+};
+
+/**
+ * First occurrence after `now` that hasn't been skipped
+ */
+export const getNextOccurrence = (rule: RecurringRule, now: Date = new Date()): Date => {
+  const today = toDateKey(now);
+  const skipped = new Set(rule.skippedDates || []);
+  for (let index = 0; ; index++) {
+    const occurrence = occurrenceAt(rule, index);
+    const key = toDateKey(occurrence);
+    if (key > today && key > (rule.lastRunDate || '') && !skipped.has(key)) return occurrence;
+  }
+};
+
+/**
+ * Pausing or resuming a rule. Resuming marks everything up to today as handled,
+ * so the paused stretch isn't back-filled on the next launch.
+ */
+export const setRulePaused = (rule: RecurringRule, paused: boolean, now: Date = new Date()): RecurringRule =>
+  paused ? { ...rule, paused } : { ...rule, paused, lastRunDate: toDateKey(now) };
+
+/**
+ * Skip the next upcoming occurrence of a rule
+ */
+export const skipNextOccurrence = (rule: RecurringRule, now: Date = new Date()): RecurringRule => ({
+  ...rule,
+  skippedDates: [...(rule.skippedDates || []), toDateKey(getNextOccurrence(rule, now))],
+});
+
+/**
+ * Create the automatic deposits for every occurrence missed since the last launch.
+ * Each deposit goes through the jar's overflow policy like a manual one.
+ */
+export const catchUpRecurring = (jars: Jar[], now: Date = new Date()): CatchUpResult => {
+  let updatedJars = jars;
+  const unallocated: UnallocatedEntry[] = [];
+  let generated = 0;
+  const today = toDateKey(now);
+
+  jars.forEach(jar => {
+    (jar.recurring || []).forEach(rule => {
+      if (rule.paused || rule.amount <= 0) return;
+      const skipped = new Set(rule.skippedDates || []);
+      const due = getOccurrences(rule, now, rule.lastRunDate);
+      if (due.length === 0) return;
+
+      due.forEach(occurrence => {
+        if (skipped.has(toDateKey(occurrence))) return;
+        // Book automatic deposits at midday so they stay on the right calendar day
+        const date = new Date(occurrence);
+        date.setHours(12, 0, 0, 0);
+        const result = depositWithOverflow(updatedJars, jar.id, rule.amount, date, { automatic: true, ruleId: rule.id });
+        updatedJars = result.jars;
+        unallocated.push(...result.unallocated);
+        generated += 1;
+      });
+
+      const lastRunDate = toDateKey(due[due.length - 1]);
+      updatedJars = updatedJars.map(j =>
+        j.id === jar.id
+          ? {
+              ...j,
+              recurring: (j.recurring || []).map(r =>
+                r.id === rule.id
+                  ? { ...r, lastRunDate, skippedDates: (r.skippedDates || []).filter(d => d > today) }
+                  : r
+              ),
+            }
+          : j
+      );
+    });
+  });
+
+  return { jars: updatedJars, unallocated, generated };
+};
@@ -0,0 +1,298 @@
+/**
+ * Time-series reports built from the jars' transaction records: balances over time,
+ * money in and out per week or month, and deposit days for the calendar heatmap, for a
+ * date range and an optional jar or category filter. Amounts are converted to the base currency; jars whose currency
+ * has no exchange rate are left out and listed so the page can say so.
+ */
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  format,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+  subMonths,
+} from 'date-fns';
+import { CurrencyPreferences, convertMinorUnits, getExchangeRate, toBaseMinorUnits } from './currency';
+import { Jar, TransactionRecord } from './domain';
+import { toDateKey } from './recurring';
+
+export type ReportRangePreset = '30d' | '90d' | '12m' | 'all' | 'custom';
+export type ReportGranularity = 'week' | 'month';
+
+export const REPORT_RANGE_PRESETS: Record<ReportRangePreset, string> = {
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  '12m': 'Last 12 months',
+  all: 'All time',
+  custom: 'Custom',
+};
+
+export interface ReportFilters {
+  preset: ReportRangePreset;
+  /** yyyy-MM-dd, only used by the custom preset */
+  from: string;
+  to: string;
+  jarId: number | null;
+  categoryId: number | null;
+  granularity: ReportGranularity;
+}
+
+export interface ReportRange {
+  from: Date;
+  to: Date;
+}
+
+export interface ReportSeries {
+  /** Stable chart key for the series, e.g. `jar-3` */
+  key: string;
+  name: string;
+}
+
+export interface BalancePoint {
+  time: number;
+  total: number;
+  /** Balance per series key */
+  [key: string]: number;
+}
+
+export interface FlowPoint {
+  /** Start of the week or month */
+  time: number;
+  label: string;
+  deposits: number;
+  withdrawals: number;
+}
+
+export interface BalanceReport {
+  series: ReportSeries[];
+  points: BalancePoint[];
+}
+
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+// Balance charts keep to about this many points; longer ranges are sampled every few days
+const MAX_BALANCE_POINTS = 180;
+// Jars beyond this many get one combined series so the stacked chart stays readable
+const MAX_BALANCE_SERIES = 6;
+
+export const defaultReportFilters = (now: Date = new Date()): ReportFilters => ({
+  preset: '90d',
+  from: toDateKey(subDays(now, 89)),
+  to: toDateKey(now),
+  jarId: null,
+  categoryId: null,
+  granularity: 'week',
+});
+
+/**
+ * Jars matching the jar and category filters
+ */
+export const filterReportJars = (jars: Jar[], filters: ReportFilters): Jar[] =>
+  jars.filter(
+    jar =>
+      (filters.jarId === null || jar.id === filters.jarId) &&
+      (filters.categoryId === null || jar.categoryId === filters.categoryId)
+  );
+
+const recordTime = (record: TransactionRecord) => new Date(record.date).getTime();
+
+/**
+ * Calendar days covered by the filters. "All time" starts at the earliest record
+ * or jar creation date of the given jars.
+ */
+export const getReportRange = (jars: Jar[], filters: ReportFilters, now: Date = new Date()): ReportRange => {
+  const today = startOfDay(now);
+  switch (filters.preset) {
+    case '30d':
+      return { from: subDays(today, 29), to: today };
+    case '90d':
+      return { from: subDays(today, 89), to: today };
+    case '12m':
+      return { from: addDays(subMonths(today, 12), 1), to: today };
+    case 'all': {
+      // Folded one record at a time: spreading a long ledger into Math.min overflows the call stack
+      const first = jars.reduce((earliest, jar) => {
+        const created = jar.createdAt ? Math.min(earliest, new Date(jar.createdAt).getTime()) : earliest;
+        return (jar.records || []).reduce((min, record) => Math.min(min, recordTime(record)), created);
+      }, today.getTime());
+      return { from: startOfDay(new Date(first)), to: today };
+    }
+    case 'custom': {
+      const from = filters.from ? parseISO(filters.from) : today;
+      const to = filters.to ? parseISO(filters.to) : today;
+      return from <= to ? { from, to } : { from: to, to: from };
+    }
+  }
+};
+
+// Effect of a record on the jar's balance
+const balanceChange = (record: TransactionRecord) => (record.type === 'saved' ? record.amount : -record.amount);
+
+// Deposits that only move money between jars or out of the unallocated pool aren't new savings
+const isNewMoney = (record: TransactionRecord) =>
+  record.type === 'saved' && record.rolloverFrom === undefined && !record.fromUnallocated;
+
+/**
+ * Jars whose currency can't be converted to the base currency
+ */
+export const getUnconvertibleJars = (jars: Jar[], settings: CurrencyPreferences): Jar[] =>
+  jars.filter(jar => toBaseMinorUnits(0, jar.currency, settings) === null);
+
+/**
+ * End-of-day balances across the range, one stacked series per jar so the top of the
+ * stack is the cumulative total. The smallest jars share an "Other jars" series when
+ * there are too many to tell apart.
+ */
+export const getBalanceReport = (jars: Jar[], range: ReportRange, settings: CurrencyPreferences): BalanceReport => {
+  const convertible = jars.filter(jar => toBaseMinorUnits(0, jar.currency, settings) !== null);
+  const ranked = [...convertible].sort(
+    (a, b) => (toBaseMinorUnits(b.saved, b.currency, settings) ?? 0) - (toBaseMinorUnits(a.saved, a.currency, settings) ?? 0)
+  );
+  const shown = ranked.length > MAX_BALANCE_SERIES ? ranked.slice(0, MAX_BALANCE_SERIES - 1) : ranked;
+  const series: ReportSeries[] = shown.map(jar => ({ key: `jar-${jar.id}`, name: jar.name }));
+  if (shown.length < ranked.length) series.push({ key: 'other', name: 'Other jars' });
+  const seriesKey = (jar: Jar) => (shown.includes(jar) ? `jar-${jar.id}` : 'other');
+
+  const days = differenceInCalendarDays(range.to, range.from) + 1;
+  const step = Math.max(1, Math.ceil(days / MAX_BALANCE_POINTS));
+  const sampleDays: Date[] = [];
+  for (let offset = 0; offset < days; offset += step) sampleDays.push(addDays(range.from, offset));
+  if (differenceInCalendarDays(range.to, sampleDays[sampleDays.length - 1]) > 0) sampleDays.push(range.to);
+
+  const points: BalancePoint[] = sampleDays.map(day => ({
+    time: day.getTime(),
+    total: 0,
+    ...Object.fromEntries(series.map(item => [item.key, 0])),
+  }));
+
+  convertible.forEach(jar => {
+    const key = seriesKey(jar);
+    const records = [...(jar.records || [])].sort((a, b) => recordTime(a) - recordTime(b));
+    let index = 0;
+    let balance = 0;
+    points.forEach((point, pointIndex) => {
+      const endOfDay = addDays(sampleDays[pointIndex], 1).getTime();
+      while (index < records.length && recordTime(records[index]) < endOfDay) {
+        balance += balanceChange(records[index]);
+        index++;
+      }
+      const value = toBaseMinorUnits(balance, jar.currency, settings) ?? 0;
+      point[key] += value;
+      point.total += value;
+    });
+  });
+
+  return { series, points };
+};
+
+/**
+ * New deposits and withdrawals per week (Monday to Sunday) or calendar month.
+ * Money moved between jars isn't counted as either.
+ */
+export const getFlowReport = (
+  jars: Jar[],
+  range: ReportRange,
+  granularity: ReportGranularity,
+  settings: CurrencyPreferences
+): FlowPoint[] => {
+  const startOfPeriod = (date: Date) =>
+    granularity === 'week' ? startOfWeek(date, WEEK_OPTIONS) : startOfMonth(date);
+  const nextPeriod = (date: Date) => (granularity === 'week' ? addWeeks(date, 1) : addMonths(date, 1));
+  const label = (date: Date) => (granularity === 'week' ? format(date, 'MMM d') : format(date, 'MMM yyyy'));
+
+  const periods = new Map<number, FlowPoint>();
+  for (let period = startOfPeriod(range.from); period <= range.to; period = nextPeriod(period)) {
+    periods.set(period.getTime(), { time: period.getTime(), label: label(period), deposits: 0, withdrawals: 0 });
+  }
+
+  const end = addDays(range.to, 1).getTime();
+  jars.forEach(jar => {
+    (jar.records || []).forEach(record => {
+      const time = recordTime(record);
+      if (time < range.from.getTime() || time >= end) return;
+      const amount = toBaseMinorUnits(record.amount, jar.currency, settings);
+      if (amount === null) return;
+      const point = periods.get(startOfPeriod(new Date(time)).getTime());
+      if (!point) return;
+      if (isNewMoney(record)) point.deposits += amount;
+      else if (record.type === 'withdrawn') point.withdrawals += amount;
+    });
+  });
+
+  return [...periods.values()];
+};
+
+/**
+ * Keep only the records inside the range, e.g. to scope other per-record reports
+ */
+export const limitRecordsToRange = (jars: Jar[], range: ReportRange): Jar[] => {
+  const end = addDays(range.to, 1).getTime();
+  return jars.map(jar => ({
+    ...jar,
+    records: (jar.records || []).filter(record => {
+      const time = recordTime(record);
+      return time >= range.from.getTime() && time < end;
+    }),
+  }));
+};
+
+export interface DepositDay {
+  /** Total deposited that day, in the requested currency */
+  amount: number;
+  count: number;
+  /** Heatmap shade from 1 (least) to 4 (most), relative to the busiest day */
+  level: 1 | 2 | 3 | 4;
+}
+
+export interface DayTransaction {
+  jar: Jar;
+  record: TransactionRecord;
+}
+
+/**
+ * Deposits per calendar day (keyed yyyy-MM-dd) for a calendar heatmap, converted to `currency`.
+ * Money moved between jars isn't counted, and jars with no exchange rate are left out.
+ */
+export const getDepositDays = (
+  jars: Jar[],
+  currency: string,
+  settings: CurrencyPreferences
+): Map<string, DepositDay> => {
+  const totals = new Map<string, { amount: number; count: number }>();
+  jars.forEach(jar => {
+    const rate = getExchangeRate(jar.currency, currency, settings);
+    if (rate === null) return;
+    (jar.records || []).filter(isNewMoney).forEach(record => {
+      const key = toDateKey(new Date(record.date));
+      const day = totals.get(key) || { amount: 0, count: 0 };
+      totals.set(key, {
+        amount: day.amount + convertMinorUnits(record.amount, jar.currency, currency, rate),
+        count: day.count + 1,
+      });
+    });
+  });
+
+  const max = Math.max(0, ...[...totals.values()].map(day => day.amount));
+  return new Map(
+    [...totals.entries()].map(([key, day]) => [
+      key,
+      { ...day, level: Math.min(4, Math.max(1, Math.ceil((day.amount / max) * 4))) as DepositDay['level'] },
+    ])
+  );
+};
+
+/**
+ * Every transaction on the given day across the jars, oldest first
+ */
+export const getDayTransactions = (jars: Jar[], day: Date): DayTransaction[] => {
+  const key = toDateKey(day);
+  return jars
+    .flatMap(jar =>
+      (jar.records || []).filter(record => toDateKey(new Date(record.date)) === key).map(record => ({ jar, record }))
+    )
+    .sort((a, b) => recordTime(a.record) - recordTime(b.record));
+};
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+
+/**
+ * Zod schemas describing the persisted shape of every entity.
+ * Unknown fields are passed through so data written by a newer app version
+ * is not stripped when an older version re-saves it.
+ * Money amounts are whole minor units (see ./currency).
+ */
+
+export const transactionRecordSchema = z
+  .object({
+    id: z.number(),
+    type: z.enum(['saved', 'withdrawn', 'overflow']),
+    amount: z.number().int().nonnegative(),
+    date: z.coerce.date().refine(date => !isNaN(date.getTime()), 'Invalid date'),
+    overflowTo: z.union([z.number(), z.literal('unallocated')]).optional(),
+    rolloverFrom: z.number().optional(),
+    fromUnallocated: z.boolean().optional(),
+    automatic: z.boolean().optional(),
+    ruleId: z.number().optional(),
+    reason: z.enum(['emergency', 'bills', 'planned', 'treat', 'impulse', 'other']).optional(),
+    note: z.string().optional(),
+    imported: z.boolean().optional(),
+  })
+  .passthrough();
+
+export const pendingWithdrawalSchema = z
+  .object({
+    id: z.number(),
+    amount: z.number().int().nonnegative(),
+    requestedAt: z.string(),
+    releaseAt: z.string(),
+    reason: z.enum(['emergency', 'bills', 'planned', 'treat', 'impulse', 'other']).optional(),
+    note: z.string().optional(),
+  })
+  .passthrough();
+
+export const jarNoteSchema = z
+  .object({
+    id: z.number(),
+    text: z.string(),
+    color: z.string(),
+  })
+  .passthrough();
+
+export const recurringRuleSchema = z
+  .object({
+    id: z.number(),
+    amount: z.number().int().nonnegative(),
+    frequency: z.enum(['daily', 'weekly', 'monthly']),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    paused: z.boolean().optional(),
+    skippedDates: z.array(z.string()).optional(),
+    lastRunDate: z.string().optional(),
+  })
+  .passthrough();
+
+export const milestoneSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    amount: z.number().int().nonnegative(),
+    targetDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    reachedAt: z.string().optional(),
+  })
+  .passthrough();
+
+export const jarSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    target: z.number().int(),
+    saved: z.number().int(),
+    streak: z.number().finite(),
+    streakCadence: z.enum(['daily', 'weekly', 'monthly']).optional(),
+    withdrawn: z.number().int(),
+    notes: z.array(jarNoteSchema).optional(),
+    // Records are validated one by one so a single bad entry doesn't drop the jar
+    records: z.array(z.unknown()).optional(),
+    currency: z.string().optional(),
+    categoryId: z.number().optional(),
+    targetDate: z.string().optional(),
+    createdAt: z.string().optional(),
+    overflowPolicy: z.enum(['keep', 'rollover', 'unallocated']).optional(),
+    rolloverJarId: z.number().optional(),
+    recurring: z.array(recurringRuleSchema).optional(),
+    coolingOffHours: z.number().nonnegative().optional(),
+    pendingWithdrawals: z.array(pendingWithdrawalSchema).optional(),
+    milestones: z.array(milestoneSchema).optional(),
+  })
+  .passthrough();
+
+export const categorySchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    icon: z.string(),
+  })
+  .passthrough();
+
+export const noteSchema = z
+  .object({
+    id: z.number(),
+    text: z.string(),
+    color: z.string(),
+  })
+  .passthrough();
+
+export const unallocatedEntrySchema = z
+  .object({
+    id: z.number(),
+    amount: z.number().int(),
+    currency: z.string(),
+    date: z.coerce.date().refine(date => !isNaN(date.getTime()), 'Invalid date'),
+    jarId: z.number(),
+  })
+  .passthrough();
+
+export const currencyPreferencesSchema = z
+  .object({
+    baseCurrency: z.string().min(1),
+    rates: z.record(z.number().finite().positive()),
+    amountDisplay: z.enum(['compact', 'full']).optional(),
+    updatedAt: z.string().optional(),
+  })
+  .passthrough();
+
+export const autoBackupSettingsSchema = z
+  .object({
+    enabled: z.boolean(),
+    frequency: z.enum(['daily', 'weekly', 'changes']),
+    changeThreshold: z.number().int().positive(),
+    keep: z.number().int().positive(),
+    lastBackupAt: z.string().nullable(),
+    changesSinceBackup: z.number().int().nonnegative(),
+  })
+  .passthrough();
+
+// Trashed jars keep their records inline, so they are validated (and their dates revived) here
+const trashedJarSchema = jarSchema.extend({ records: z.array(transactionRecordSchema).optional() });
+
+const trashEntryBase = {
+  id: z.number(),
+  deletedAt: z.string(),
+};
+
+export const trashEntrySchema = z.discriminatedUnion('kind', [
+  z.object({ ...trashEntryBase, kind: z.literal('jar'), jar: trashedJarSchema }).passthrough(),
+  z
+    .object({
+      ...trashEntryBase,
+      kind: z.literal('category'),
+      category: categorySchema,
+      jars: z.array(trashedJarSchema),
+      movedJarIds: z.array(z.number()).optional(),
+    })
+    .passthrough(),
+  z.object({ ...trashEntryBase, kind: z.literal('note'), note: noteSchema }).passthrough(),
+  z.object({ ...trashEntryBase, kind: z.literal('jarNote'), jarId: z.number(), note: jarNoteSchema }).passthrough(),
+]);
@@ -1,44 +1,50 @@
 /**
- * Local Storage utility for persisting app data
- * Provides a simple API for saving and loading data with automatic serialization
+ * Persistent storage utility for the app data
+ * Provides a simple async API for saving and loading data with automatic serialization.
+ * Every key is stored in a versioned envelope, upgraded through the migrations in
+ * ./migrations and validated against ./schemas on load. Entries that fail
+ * validation are moved to a quarantine key instead of crashing the app or being lost.
+ * Data lives in IndexedDB when available, falling back to localStorage.
  */
+import { z } from 'zod';
+import {
+  Envelope,
+  Migration,
+  readEnvelope,
+  runMigrations,
+  jarMigrations,
+  categoryMigrations,
+  noteMigrations,
+  scalarMigrations,
+  unallocatedMigrations,
+} from './migrations';
+import {
+  jarSchema,
+  categorySchema,
+  noteSchema,
+  transactionRecordSchema,
+  unallocatedEntrySchema,
+  currencyPreferencesSchema,
+  trashEntrySchema,
+  autoBackupSettingsSchema,
+} from './schemas';
+import { Jar, Category, Note, TransactionRecord, UnallocatedEntry } from './domain';
+import { StorageAdapter, StoredRecord, localStorageAdapter, recordKey } from './storageAdapter';
+import { openIndexedDbAdapter } from './indexedDb';
+import type { CurrencyPreferences } from './currency';
+import { DEFAULT_TRASH_RETENTION_DAYS, TrashEntry } from './trash';
+import { AutoBackupSettings, defaultAutoBackupSettings } from './autoBackup';
 
-interface Jar {
-  id: number;
-  name: string;
-  target: number;
-  saved: number;
-  streak: number;
-  withdrawn: number;
-  notes?: JarNote[];
-  records?: TransactionRecord[];
-  currency?: string;
-  categoryId?: number;
+export interface QuarantinedItem {
+  key: string;
+  item: unknown;
+  reason: string;
+  quarantinedAt: string;
 }
 
-interface Category {
-  id: number;
-  name: string;
-  icon: string;
-}
-
-interface Note {
-  id: number;
-  text: string;
-  color: string;
-}
-
-interface JarNote {
-  id: number;
-  text: string;
-  color: string;
-}
-
-interface TransactionRecord {
-  id: number;
-  type: 'saved' | 'withdrawn';
-  amount: number;
-  date: Date;
+interface Rejected {
+  item: unknown;
+  reason: string;
 }
 
 const STORAGE_KEYS = {
@@ -47,95 +53,340 @@ const STORAGE_KEYS = {
   NOTES: 'jarify_notes',
   DARK_MODE: 'jarify_darkMode',
   LAST_NOTIFICATION: 'jarify_lastNotification',
+  QUARANTINE: 'jarify_quarantine',
+  UNALLOCATED: 'jarify_unallocated',
+  CURRENCY: 'jarify_currency',
+  TRASH: 'jarify_trash',
+  TRASH_RETENTION: 'jarify_trashRetention',
+  AUTO_BACKUP: 'jarify_autoBackup',
 } as const;
 
+const MIGRATIONS: Record<string, Migration[]> = {
+  [STORAGE_KEYS.JARS]: jarMigrations,
+  [STORAGE_KEYS.CATEGORIES]: categoryMigrations,
+  [STORAGE_KEYS.NOTES]: noteMigrations,
+  [STORAGE_KEYS.DARK_MODE]: scalarMigrations,
+  [STORAGE_KEYS.LAST_NOTIFICATION]: scalarMigrations,
+  [STORAGE_KEYS.QUARANTINE]: scalarMigrations,
+  [STORAGE_KEYS.UNALLOCATED]: unallocatedMigrations,
+  [STORAGE_KEYS.CURRENCY]: scalarMigrations,
+  [STORAGE_KEYS.TRASH]: scalarMigrations,
+  [STORAGE_KEYS.TRASH_RETENTION]: scalarMigrations,
+  [STORAGE_KEYS.AUTO_BACKUP]: scalarMigrations,
+};
+
+const currentVersion = (key: string) => MIGRATIONS[key]?.length ?? 0;
+
+let adapterPromise: Promise<StorageAdapter> | null = null;
+
 /**
- * Save data to localStorage with JSON serialization
+ * Pick the storage backend once per session, preferring IndexedDB
  */
-const saveToStorage = <T>(key: string, data: T): void => {
-  try {
-    localStorage.setItem(key, JSON.stringify(data));
-  } catch (error) {
-    console.error(`Error saving to localStorage (${key}):`, error);
+const getAdapter = (): Promise<StorageAdapter> => {
+  if (!adapterPromise) {
+    adapterPromise = openIndexedDbAdapter(Object.values(STORAGE_KEYS), localStorageAdapter).catch(error => {
+      console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+      return localStorageAdapter;
+    });
   }
+  return adapterPromise;
+};
+
+// Writes are chained so a slow save can never land after a newer one
+let writeQueue: Promise<unknown> = Promise.resolve();
+const enqueueWrite = (write: () => Promise<void>): Promise<void> => {
+  const next = writeQueue.then(write, write);
+  writeQueue = next.catch(() => undefined);
+  return next;
 };
 
+// Serialized form of every record row currently persisted, used to write only what changed
+const persistedRecords = new Map<string, string>();
+
+const toStoredRecord = (jarId: number, record: TransactionRecord): StoredRecord => ({
+  ...record,
+  jarId,
+  date: new Date(record.date).toISOString(),
+});
+
 /**
- * Load data from localStorage with JSON parsing
+ * Save data inside a versioned envelope
  */
-const loadFromStorage = <T>(key: string, defaultValue: T): T => {
+const saveToStorage = <T>(key: string, data: T): Promise<void> =>
+  enqueueWrite(async () => {
+    try {
+      const adapter = await getAdapter();
+      const envelope: Envelope<T> = { version: currentVersion(key), data };
+      await adapter.setItem(key, JSON.stringify(envelope));
+    } catch (error) {
+      console.error(`Error saving to storage (${key}):`, error);
+    }
+  });
+
+/**
+ * Append items to the quarantine so they can be inspected or recovered later
+ */
+const quarantine = async (key: string, items: Rejected[]): Promise<void> => {
+  if (items.length === 0) return;
+  const existing = (await loadEnvelopeData<QuarantinedItem[]>(STORAGE_KEYS.QUARANTINE)) ?? [];
+  const quarantinedAt = new Date().toISOString();
+  await saveToStorage(STORAGE_KEYS.QUARANTINE, [
+    ...(Array.isArray(existing) ? existing : []),
+    ...items.map(({ item, reason }) => ({ key, item, reason, quarantinedAt })),
+  ]);
+  console.warn(`Quarantined ${items.length} invalid item(s) from ${key}`);
+};
+
+/**
+ * Load a key and bring it up to the current version.
+ * `prepare` runs on the raw payload before migrations (used to re-attach record rows).
+ * Returns undefined when the key is missing; unparseable JSON is quarantined.
+ */
+const loadEnvelopeData = async <T = unknown>(
+  key: string,
+  prepare?: (data: unknown) => unknown
+): Promise<T | undefined> => {
+  const adapter = await getAdapter();
+  const item = await adapter.getItem(key);
+  if (item === null) return undefined;
+
+  let raw: unknown;
   try {
-    const item = localStorage.getItem(key);
-    if (item) {
-      return JSON.parse(item);
+    raw = JSON.parse(item);
+  } catch (error) {
+    console.error(`Error loading from storage (${key}):`, error);
+    if (key !== STORAGE_KEYS.QUARANTINE) {
+      await quarantine(key, [{ item, reason: 'Invalid JSON' }]);
+      await adapter.removeItem(key);
     }
+    return undefined;
+  }
+
+  const envelope = readEnvelope(raw);
+  if (prepare) envelope.data = prepare(envelope.data);
+  if (envelope.version > currentVersion(key)) {
+    console.warn(`${key} was written by a newer version (v${envelope.version}); loading as-is`);
+    return envelope.data as T;
+  }
+
+  try {
+    return runMigrations(envelope, MIGRATIONS[key] ?? []).data as T;
   } catch (error) {
-    console.error(`Error loading from localStorage (${key}):`, error);
+    console.error(`Error migrating ${key} from v${envelope.version}:`, error);
+    await quarantine(key, [{ item: raw, reason: `Migration from v${envelope.version} failed` }]);
+    await adapter.removeItem(key);
+    return undefined;
+  }
+};
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+
+/**
+ * Validate every entry of a stored list, separating the ones that don't match the schema
+ */
+const validateList = <T>(data: unknown, schema: z.ZodTypeAny): { valid: T[]; rejected: Rejected[] } => {
+  if (!Array.isArray(data)) {
+    return { valid: [], rejected: [{ item: data, reason: 'Expected a list' }] };
   }
-  return defaultValue;
+  const valid: T[] = [];
+  const rejected: Rejected[] = [];
+  data.forEach(item => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      valid.push(result.data as T);
+    } else {
+      rejected.push({ item, reason: describeIssues(result.error) });
+    }
+  });
+  return { valid, rejected };
 };
 
+/**
+ * Load a list key, then re-save it if anything was quarantined so bad entries
+ * aren't quarantined a second time on the next launch
+ */
+const loadList = async <T>(key: string, schema: z.ZodTypeAny): Promise<T[]> => {
+  const data = await loadEnvelopeData(key);
+  if (data === undefined) return [];
+  const { valid, rejected } = validateList<T>(data, schema);
+  if (rejected.length > 0) {
+    await quarantine(key, rejected);
+    await saveToStorage(key, valid);
+  }
+  return valid;
+};
+
+/**
+ * Load a scalar key, falling back to the default if it has the wrong type
+ */
+const loadScalar = async <T>(key: string, schema: z.ZodTypeAny, defaultValue: T): Promise<T> => {
+  const data = await loadEnvelopeData(key);
+  if (data === undefined) return defaultValue;
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    await quarantine(key, [{ item: data, reason: describeIssues(result.error) }]);
+    await (await getAdapter()).removeItem(key);
+    return defaultValue;
+  }
+  return result.data as T;
+};
+
+/**
+ * Write only the record rows that changed, then persist jars without their records.
+ * The envelope goes last so a failed record write never leaves new-version jars next to
+ * old record rows; the next save retries the rows that didn't land.
+ */
+const writeJars = (jars: Jar[]): Promise<void> =>
+  enqueueWrite(async () => {
+    try {
+      const adapter = await getAdapter();
+      const rows = jars.flatMap(jar => (jar.records || []).map(record => toStoredRecord(jar.id, record)));
+      const serialized = new Map(rows.map(row => [recordKey(row), JSON.stringify(row)]));
+
+      const changed = rows.filter(row => persistedRecords.get(recordKey(row)) !== serialized.get(recordKey(row)));
+      const removed = [...persistedRecords.keys()]
+        .filter(key => !serialized.has(key))
+        .map(key => {
+          const [jarId, id] = key.split(':').map(Number);
+          return { jarId, id };
+        });
+
+      const envelope: Envelope<Jar[]> = {
+        version: currentVersion(STORAGE_KEYS.JARS),
+        data: jars.map(({ records, ...jar }) => jar),
+      };
+      await adapter.putRecords(changed);
+      await adapter.deleteRecords(removed);
+      await adapter.setItem(STORAGE_KEYS.JARS, JSON.stringify(envelope));
+
+      changed.forEach(row => persistedRecords.set(recordKey(row), serialized.get(recordKey(row))!));
+      removed.forEach(key => persistedRecords.delete(recordKey(key)));
+    } catch (error) {
+      console.error(`Error saving to storage (${STORAGE_KEYS.JARS}):`, error);
+    }
+  });
+
 /**
  * Storage API for the Jarify app
  */
 export const storage = {
+  // Name of the active backend, mostly useful for diagnostics
+  backend: async (): Promise<StorageAdapter['name']> => (await getAdapter()).name,
+
   // Jars
-  saveJars: (jars: Jar[]) => {
-    saveToStorage(STORAGE_KEYS.JARS, jars);
-  },
-  
-  loadJars: (): Jar[] => {
-    const jars = loadFromStorage<Jar[]>(STORAGE_KEYS.JARS, []);
-    // Convert date strings back to Date objects for records
-    return jars.map(jar => ({
-      ...jar,
-      records: jar.records?.map(record => ({
-        ...record,
-        date: new Date(record.date),
-      })) || [],
-    }));
+  saveJars: (jars: Jar[]) => writeJars(jars),
+
+  loadJars: async (): Promise<Jar[]> => {
+    const adapter = await getAdapter();
+    const rows = await adapter.getRecords();
+    persistedRecords.clear();
+    const rowsByJar = new Map<number, unknown[]>();
+    rows.forEach(({ jarId, ...record }) => {
+      persistedRecords.set(recordKey({ jarId, id: record.id }), JSON.stringify({ ...record, jarId }));
+      rowsByJar.set(jarId, [...(rowsByJar.get(jarId) || []), record]);
+    });
+
+    // Data written before the record store existed keeps its records inline
+    let hasInlineRecords = false;
+    const data = await loadEnvelopeData(STORAGE_KEYS.JARS, raw =>
+      Array.isArray(raw)
+        ? raw.map(jar => {
+            if (typeof jar !== 'object' || jar === null) return jar;
+            const inline = Array.isArray(jar.records) ? jar.records : [];
+            hasInlineRecords = hasInlineRecords || inline.length > 0;
+            return { ...jar, records: [...inline, ...(rowsByJar.get(jar.id) || [])] };
+          })
+        : raw
+    );
+    if (data === undefined) return [];
+
+    const { valid, rejected } = validateList<Jar>(data, jarSchema);
+    await quarantine(STORAGE_KEYS.JARS, rejected);
+    let rejectedRecords = 0;
+    const jars = await Promise.all(
+      valid.map(async jar => {
+        // Validate records individually; the schema converts date strings back to Date objects
+        const records = validateList<TransactionRecord>(jar.records ?? [], transactionRecordSchema);
+        await quarantine(`${STORAGE_KEYS.JARS}[${jar.id}].records`, records.rejected);
+        rejectedRecords += records.rejected.length;
+        const unique = new Map(records.valid.map(record => [record.id, record]));
+        return { ...jar, records: [...unique.values()] };
+      })
+    );
+
+    if (rejected.length > 0 || rejectedRecords > 0 || hasInlineRecords) {
+      await writeJars(jars);
+    }
+    return jars;
   },
 
   // Categories
-  saveCategories: (categories: Category[]) => {
-    saveToStorage(STORAGE_KEYS.CATEGORIES, categories);
-  },
-  
-  loadCategories: (): Category[] => {
-    return loadFromStorage<Category[]>(STORAGE_KEYS.CATEGORIES, []);
-  },
+  saveCategories: (categories: Category[]) => saveToStorage(STORAGE_KEYS.CATEGORIES, categories),
+
+  loadCategories: (): Promise<Category[]> => loadList<Category>(STORAGE_KEYS.CATEGORIES, categorySchema),
 
   // Notes
-  saveNotes: (notes: Note[]) => {
-    saveToStorage(STORAGE_KEYS.NOTES, notes);
-  },
-  
-  loadNotes: (): Note[] => {
-    return loadFromStorage<Note[]>(STORAGE_KEYS.NOTES, []);
-  },
+  saveNotes: (notes: Note[]) => saveToStorage(STORAGE_KEYS.NOTES, notes),
+
+  loadNotes: (): Promise<Note[]> => loadList<Note>(STORAGE_KEYS.NOTES, noteSchema),
+
+  // Unallocated pool fed by overflowing jars
+  saveUnallocated: (entries: UnallocatedEntry[]) => saveToStorage(STORAGE_KEYS.UNALLOCATED, entries),
+
+  loadUnallocated: (): Promise<UnallocatedEntry[]> =>
+    loadList<UnallocatedEntry>(STORAGE_KEYS.UNALLOCATED, unallocatedEntrySchema),
+
+  // Base currency and exchange rates; null until the user (or first launch) sets them
+  saveCurrencyPreferences: (settings: CurrencyPreferences) => saveToStorage(STORAGE_KEYS.CURRENCY, settings),
+
+  loadCurrencyPreferences: (): Promise<CurrencyPreferences | null> =>
+    loadScalar<CurrencyPreferences | null>(STORAGE_KEYS.CURRENCY, currencyPreferencesSchema, null),
+
+  // Deleted jars, categories and notes waiting to be restored or purged
+  saveTrash: (trash: TrashEntry[]) => saveToStorage(STORAGE_KEYS.TRASH, trash),
+
+  loadTrash: (): Promise<TrashEntry[]> => loadList<TrashEntry>(STORAGE_KEYS.TRASH, trashEntrySchema),
+
+  saveTrashRetention: (days: number) => saveToStorage(STORAGE_KEYS.TRASH_RETENTION, days),
+
+  loadTrashRetention: (): Promise<number> =>
+    loadScalar<number>(STORAGE_KEYS.TRASH_RETENTION, z.number().int().positive(), DEFAULT_TRASH_RETENTION_DAYS),
+
+  // Schedule and bookkeeping of automatic backups
+  saveAutoBackupSettings: (settings: AutoBackupSettings) => saveToStorage(STORAGE_KEYS.AUTO_BACKUP, settings),
+
+  loadAutoBackupSettings: (): Promise<AutoBackupSettings> =>
+    loadScalar<AutoBackupSettings>(STORAGE_KEYS.AUTO_BACKUP, autoBackupSettingsSchema, defaultAutoBackupSettings()),
 
   // Dark Mode
-  saveDarkMode: (darkMode: boolean) => {
-    saveToStorage(STORAGE_KEYS.DARK_MODE, darkMode);
-  },
-  
-  loadDarkMode: (): boolean => {
-    return loadFromStorage<boolean>(STORAGE_KEYS.DARK_MODE, false);
-  },
+  saveDarkMode: (darkMode: boolean) => saveToStorage(STORAGE_KEYS.DARK_MODE, darkMode),
+
+  loadDarkMode: (): Promise<boolean> => loadScalar<boolean>(STORAGE_KEYS.DARK_MODE, z.boolean(), false),
 
   // Last Notification Date
-  saveLastNotification: (date: string) => {
-    saveToStorage(STORAGE_KEYS.LAST_NOTIFICATION, date);
-  },
-  
-  loadLastNotification: (): string | null => {
-    return loadFromStorage<string | null>(STORAGE_KEYS.LAST_NOTIFICATION, null);
+  saveLastNotification: (date: string) => saveToStorage(STORAGE_KEYS.LAST_NOTIFICATION, date),
+
+  loadLastNotification: (): Promise<string | null> =>
+    loadScalar<string | null>(STORAGE_KEYS.LAST_NOTIFICATION, z.string().nullable(), null),
+
+  // Quarantined entries that failed validation on load
+  loadQuarantine: async (): Promise<QuarantinedItem[]> => {
+    const data = await loadEnvelopeData<QuarantinedItem[]>(STORAGE_KEYS.QUARANTINE);
+    return Array.isArray(data) ? data : [];
   },
 
+  clearQuarantine: () =>
+    enqueueWrite(async () => {
+      await (await getAdapter()).removeItem(STORAGE_KEYS.QUARANTINE);
+    }),
+
   // Clear all data (useful for reset functionality)
-  clearAll: () => {
-    Object.values(STORAGE_KEYS).forEach(key => {
-      localStorage.removeItem(key);
-    });
-  },
+  clearAll: () =>
+    enqueueWrite(async () => {
+      const adapter = await getAdapter();
+      await Promise.all(Object.values(STORAGE_KEYS).map(key => adapter.removeItem(key)));
+      await adapter.clearRecords();
+      persistedRecords.clear();
+    }),
 };
@@ -0,0 +1,79 @@
+/**
+ * Pluggable persistence backends for the storage API.
+ * Key/value entries hold the serialized envelopes from ./storage; transaction
+ * records are stored one row per record so saving a jar only touches the rows
+ * that actually changed.
+ */
+
+export interface StoredRecord {
+  jarId: number;
+  id: number;
+  [field: string]: unknown;
+}
+
+export interface StorageAdapter {
+  readonly name: 'indexedDB' | 'localStorage';
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  getRecords(): Promise<StoredRecord[]>;
+  putRecords(records: StoredRecord[]): Promise<void>;
+  deleteRecords(keys: Array<Pick<StoredRecord, 'jarId' | 'id'>>): Promise<void>;
+  clearRecords(): Promise<void>;
+}
+
+export const recordKey = ({ jarId, id }: Pick<StoredRecord, 'jarId' | 'id'>) => `${jarId}:${id}`;
+
+const RECORDS_KEY = 'jarify_records';
+
+const readLocalRecords = (): StoredRecord[] => {
+  try {
+    const item = localStorage.getItem(RECORDS_KEY);
+    const parsed = item ? JSON.parse(item) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error(`Error loading from localStorage (${RECORDS_KEY}):`, error);
+    return [];
+  }
+};
+
+const writeLocalRecords = (records: StoredRecord[]) => {
+  localStorage.setItem(RECORDS_KEY, JSON.stringify(records));
+};
+
+/**
+ * Fallback backend for environments without IndexedDB.
+ * Records live in a single key, so every change still rewrites the whole list.
+ */
+export const localStorageAdapter: StorageAdapter = {
+  name: 'localStorage',
+
+  getItem: async key => localStorage.getItem(key),
+
+  setItem: async (key, value) => {
+    localStorage.setItem(key, value);
+  },
+
+  removeItem: async key => {
+    localStorage.removeItem(key);
+  },
+
+  getRecords: async () => readLocalRecords(),
+
+  putRecords: async records => {
+    if (records.length === 0) return;
+    const byKey = new Map(readLocalRecords().map(record => [recordKey(record), record]));
+    records.forEach(record => byKey.set(recordKey(record), record));
+    writeLocalRecords([...byKey.values()]);
+  },
+
+  deleteRecords: async keys => {
+    if (keys.length === 0) return;
+    const deleted = new Set(keys.map(recordKey));
+    writeLocalRecords(readLocalRecords().filter(record => !deleted.has(recordKey(record))));
+  },
+
+  clearRecords: async () => {
+    localStorage.removeItem(RECORDS_KEY);
+  },
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Jar, TransactionRecord } from './domain';
+import { getStreakInfo } from './streaks';
+
+const NOW = new Date(2024, 4, 15, 18);
+
+const daysAgo = (days: number) => new Date(2024, 4, 15 - days, 10);
+
+const saved = (days: number, extra: Partial<TransactionRecord> = {}): TransactionRecord => ({
+  id: days,
+  type: 'saved',
+  amount: 1000,
+  date: daysAgo(days),
+  ...extra,
+});
+
+const jar = (records: TransactionRecord[]): Jar => ({
+  id: 1,
+  name: 'Holiday',
+  target: 100000,
+  saved: 0,
+  streak: 0,
+  withdrawn: 0,
+  records,
+  streakCadence: 'daily',
+});
+
+describe('getStreakInfo', () => {
+  it('counts consecutive periods with a deposit up to now', () => {
+    const info = getStreakInfo(jar([saved(2), saved(1), saved(0)]), NOW);
+    expect(info).toMatchObject({ current: 3, longest: 3, atRisk: false, freezeUsed: false });
+  });
+
+  it('keeps the streak at risk while the current period has no deposit yet', () => {
+    expect(getStreakInfo(jar([saved(2), saved(1)]), NOW)).toMatchObject({ current: 2, atRisk: true });
+  });
+
+  it('forgives one missed period with the freeze', () => {
+    const info = getStreakInfo(jar([saved(3), saved(2), saved(0)]), NOW);
+    expect(info).toMatchObject({ current: 3, freezeUsed: true });
+  });
+
+  it('uses the freeze for a missed previous period when nothing is saved yet', () => {
+    const info = getStreakInfo(jar([saved(3), saved(2)]), NOW);
+    expect(info).toMatchObject({ current: 2, atRisk: true, freezeUsed: true });
+  });
+
+  it('ends the streak at a second gap', () => {
+    const info = getStreakInfo(jar([saved(6), saved(4), saved(2), saved(1)]), NOW);
+    expect(info).toMatchObject({ current: 2, longest: 2 });
+  });
+
+  it('ends the streak after a gap longer than one period but remembers the longest', () => {
+    const info = getStreakInfo(jar([saved(6), saved(5), saved(4)]), NOW);
+    expect(info).toMatchObject({ current: 0, longest: 3 });
+  });
+
+  it('ignores money moved in from another jar or the unallocated pool', () => {
+    const info = getStreakInfo(jar([saved(1, { rolloverFrom: 2 }), saved(0, { fromUnallocated: true })]), NOW);
+    expect(info).toMatchObject({ current: 0, longest: 0 });
+  });
+
+  it('measures weeks from Monday', () => {
+    // May 13 2024 was a Monday, May 12 the Sunday before it
+    const records = [
+      { ...saved(0), date: new Date(2024, 4, 12, 10) },
+      { ...saved(0), id: 2, date: new Date(2024, 4, 13, 10) },
+    ];
+    const info = getStreakInfo({ ...jar(records), streakCadence: 'weekly' }, NOW);
+    expect(info).toMatchObject({ cadence: 'weekly', current: 2, atRisk: false });
+  });
+});
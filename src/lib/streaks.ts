@@ -0,0 +1,101 @@
+/**
+ * Saving streaks measured in calendar periods.
+ * A period (day, week or month, depending on the jar's cadence) counts when it has
+ * at least one deposit. One missed period per streak is forgiven by a freeze;
+ * a second gap, or a gap longer than one period, ends the streak.
+ */
+import {
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+} from 'date-fns';
+import type { Jar, StreakCadence, TransactionRecord } from './domain';
+
+export interface StreakInfo {
+  cadence: StreakCadence;
+  /** Consecutive saving periods up to now (frozen periods don't add to the count) */
+  current: number;
+  longest: number;
+  /** The streak is alive but the current period has no deposit yet */
+  atRisk: boolean;
+  /** The current streak already used its freeze */
+  freezeUsed: boolean;
+  /** When the current period ends */
+  periodEnd: Date;
+}
+
+export const DEFAULT_STREAK_CADENCE: StreakCadence = 'weekly';
+
+// Any fixed date works as the origin, the period numbers are only compared with each other
+const EPOCH = new Date(2000, 0, 3);
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+const periodIndex = (date: Date, cadence: StreakCadence): number => {
+  switch (cadence) {
+    case 'daily':
+      return differenceInCalendarDays(date, EPOCH);
+    case 'weekly':
+      return differenceInCalendarWeeks(date, EPOCH, WEEK_OPTIONS);
+    case 'monthly':
+      return differenceInCalendarMonths(date, EPOCH);
+  }
+};
+
+const periodEnd = (date: Date, cadence: StreakCadence): Date => {
+  switch (cadence) {
+    case 'daily':
+      return endOfDay(date);
+    case 'weekly':
+      return endOfWeek(date, WEEK_OPTIONS);
+    case 'monthly':
+      return endOfMonth(date);
+  }
+};
+
+/**
+ * Deposits that count towards a streak. Money moved in from another jar or
+ * the unallocated pool isn't a new act of saving.
+ */
+const isSavingRecord = (record: TransactionRecord) =>
+  record.type === 'saved' && record.rolloverFrom === undefined && !record.fromUnallocated;
+
+export const getStreakInfo = (jar: Jar, now: Date = new Date()): StreakInfo => {
+  const cadence = jar.streakCadence || DEFAULT_STREAK_CADENCE;
+  const periods = [
+    ...new Set((jar.records || []).filter(isSavingRecord).map(record => periodIndex(new Date(record.date), cadence))),
+  ].sort((a, b) => a - b);
+
+  const info: StreakInfo = { cadence, current: 0, longest: 0, atRisk: false, freezeUsed: false, periodEnd: periodEnd(now, cadence) };
+  if (periods.length === 0) return info;
+
+  let run = 0;
+  let freezeUsed = false;
+  periods.forEach((period, index) => {
+    const gap = index === 0 ? 1 : period - periods[index - 1];
+    if (gap === 1) {
+      run += 1;
+    } else if (gap === 2 && !freezeUsed) {
+      run += 1;
+      freezeUsed = true;
+    } else {
+      run = 1;
+      freezeUsed = false;
+    }
+    info.longest = Math.max(info.longest, run);
+  });
+
+  const sinceLast = periodIndex(now, cadence) - periods[periods.length - 1];
+  // 0: saved this period, 1: still time to save, 2: the last period was missed and the freeze covers it
+  const alive = sinceLast <= 1 || (sinceLast === 2 && !freezeUsed);
+  if (!alive) return info;
+
+  return {
+    ...info,
+    current: run,
+    atRisk: sinceLast > 0,
+    freezeUsed: freezeUsed || sinceLast === 2,
+  };
+};
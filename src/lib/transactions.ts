@@ -0,0 +1,117 @@
+/**
+ * Global transaction history: every record from every jar as one flat list that can be
+ * searched, filtered and sorted. Amount bounds are given in the base currency so jars
+ * in different currencies can be compared; records that can't be converted only show
+ * up while no amount bound is set.
+ */
+import { addDays, parseISO } from 'date-fns';
+import { CurrencyPreferences, toBaseMinorUnits } from './currency';
+import { Jar, TransactionRecord } from './domain';
+import { WITHDRAWAL_REASONS } from './withdrawals';
+
+export type TransactionTypeFilter = 'all' | TransactionRecord['type'];
+
+export type TransactionSort = 'date-desc' | 'date-asc' | 'amount-desc' | 'amount-asc';
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionRecord['type'], string> = {
+  saved: 'Deposit',
+  withdrawn: 'Withdrawal',
+  overflow: 'Surplus moved out',
+};
+
+export const TRANSACTION_SORT_LABELS: Record<TransactionSort, string> = {
+  'date-desc': 'Newest first',
+  'date-asc': 'Oldest first',
+  'amount-desc': 'Largest first',
+  'amount-asc': 'Smallest first',
+};
+
+export interface TransactionFilters {
+  /** Matched against notes and withdrawal reasons, case-insensitive */
+  query: string;
+  type: TransactionTypeFilter;
+  jarId: number | null;
+  categoryId: number | null;
+  /** Base-currency minor units */
+  minAmount: number | null;
+  maxAmount: number | null;
+  /** yyyy-MM-dd, inclusive; empty for no bound */
+  from: string;
+  to: string;
+}
+
+export interface TransactionRow {
+  jar: Jar;
+  record: TransactionRecord;
+  time: number;
+  /** Amount in base-currency minor units, or null when the jar's currency has no rate */
+  baseAmount: number | null;
+}
+
+export const defaultTransactionFilters = (): TransactionFilters => ({
+  query: '',
+  type: 'all',
+  jarId: null,
+  categoryId: null,
+  minAmount: null,
+  maxAmount: null,
+  from: '',
+  to: '',
+});
+
+/**
+ * Every record of every jar, tagged with its jar
+ */
+export const listTransactions = (jars: Jar[], settings: CurrencyPreferences): TransactionRow[] =>
+  jars.flatMap(jar =>
+    (jar.records || []).map(record => ({
+      jar,
+      record,
+      time: new Date(record.date).getTime(),
+      baseAmount: toBaseMinorUnits(record.amount, jar.currency, settings),
+    }))
+  );
+
+// Text the search box looks through
+const searchableText = (record: TransactionRecord) =>
+  [record.note, record.reason ? WITHDRAWAL_REASONS[record.reason] : undefined].filter(Boolean).join(' ').toLowerCase();
+
+export const filterTransactions = (rows: TransactionRow[], filters: TransactionFilters): TransactionRow[] => {
+  const query = filters.query.trim().toLowerCase();
+  const from = filters.from ? parseISO(filters.from).getTime() : null;
+  const to = filters.to ? addDays(parseISO(filters.to), 1).getTime() : null;
+  return rows.filter(({ jar, record, time, baseAmount }) => {
+    if (filters.type !== 'all' && record.type !== filters.type) return false;
+    if (filters.jarId !== null && jar.id !== filters.jarId) return false;
+    if (filters.categoryId !== null && jar.categoryId !== filters.categoryId) return false;
+    if (from !== null && time < from) return false;
+    if (to !== null && time >= to) return false;
+    if (filters.minAmount !== null && (baseAmount === null || baseAmount < filters.minAmount)) return false;
+    if (filters.maxAmount !== null && (baseAmount === null || baseAmount > filters.maxAmount)) return false;
+    return !query || searchableText(record).includes(query);
+  });
+};
+
+/**
+ * Sort by date or by amount in the base currency. Amount ties, and records that
+ * can't be converted (sorted last), fall back to newest first.
+ */
+export const sortTransactions = (rows: TransactionRow[], sort: TransactionSort): TransactionRow[] => {
+  const byNewest = (a: TransactionRow, b: TransactionRow) => b.time - a.time;
+  const byAmount = (direction: 1 | -1) => (a: TransactionRow, b: TransactionRow) => {
+    if (a.baseAmount === null || b.baseAmount === null) {
+      return a.baseAmount === b.baseAmount ? byNewest(a, b) : a.baseAmount === null ? 1 : -1;
+    }
+    return (a.baseAmount - b.baseAmount) * direction || byNewest(a, b);
+  };
+  switch (sort) {
+    case 'date-desc':
+      return [...rows].sort(byNewest);
+    case 'date-asc':
+      return [...rows].sort((a, b) => a.time - b.time);
+    case 'amount-desc':
+      return [...rows].sort(byAmount(-1));
+    case 'amount-asc':
+      return [...rows].sort(byAmount(1));
+  }
+};
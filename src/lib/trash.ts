@@ -0,0 +1,117 @@
+/**
+ * Trash bin for deleted jars, categories and notes.
+ * Deleting moves an item here instead of removing it for good; it can be restored
+ * until it is older than the retention period, after which it is purged on launch.
+ */
+import { differenceInCalendarDays } from 'date-fns';
+import { Category, Jar, JarNote, Note } from './domain';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/** Retention periods offered in the trash settings, in days */
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+export type TrashItem =
+  | { kind: 'jar'; jar: Jar }
+  | {
+      kind: 'category';
+      category: Category;
+      /** Jars deleted together with the category */
+      jars: Jar[];
+      /** Jars that were moved to another category instead; restoring moves them back */
+      movedJarIds?: number[];
+    }
+  | { kind: 'note'; note: Note }
+  | { kind: 'jarNote'; jarId: number; note: JarNote };
+
+export type TrashEntry = TrashItem & {
+  id: number;
+  deletedAt: string;
+};
+
+export const createTrashEntry = (item: TrashItem, now: Date = new Date()): TrashEntry => ({
+  ...item,
+  id: now.getTime(),
+  deletedAt: now.toISOString(),
+});
+
+export const getTrashEntryLabel = (entry: TrashEntry): string => {
+  switch (entry.kind) {
+    case 'jar':
+      return entry.jar.name;
+    case 'category':
+      return entry.category.name;
+    case 'note':
+    case 'jarNote':
+      return entry.note.text.length > 40 ? `${entry.note.text.slice(0, 40)}…` : entry.note.text;
+  }
+};
+
+export const TRASH_KIND_LABELS: Record<TrashEntry['kind'], string> = {
+  jar: 'Jar',
+  category: 'Category',
+  note: 'Note',
+  jarNote: 'Jar note',
+};
+
+/**
+ * Why an entry can't be restored right now, or null if it can.
+ * Jar notes need their jar, and jars need at least one category to live in.
+ */
+export const getRestoreBlocker = (entry: TrashEntry, jars: Jar[], categories: Category[]): string | null => {
+  if (entry.kind === 'jarNote' && !jars.some(jar => jar.id === entry.jarId)) {
+    return 'Restore its jar first';
+  }
+  if (entry.kind === 'jar' && categories.length === 0) {
+    return 'Create a category first';
+  }
+  return null;
+};
+
+/**
+ * Put a restored jar back, moving it to the first category if its own was deleted
+ */
+const reviveJar = (jar: Jar, categories: Category[]): Jar =>
+  categories.some(category => category.id === jar.categoryId) ? jar : { ...jar, categoryId: categories[0]?.id };
+
+export const restoreJars = (jars: Jar[], entry: TrashEntry, categories: Category[]): Jar[] => {
+  const without = (list: Jar[], restored: Jar[]) => list.filter(jar => !restored.some(r => r.id === jar.id));
+  switch (entry.kind) {
+    case 'jar':
+      return [...without(jars, [entry.jar]), reviveJar(entry.jar, categories)];
+    case 'category': {
+      const movedBack = jars.map(jar =>
+        entry.movedJarIds?.includes(jar.id) ? { ...jar, categoryId: entry.category.id } : jar
+      );
+      return [...without(movedBack, entry.jars), ...entry.jars];
+    }
+    case 'jarNote':
+      return jars.map(jar =>
+        jar.id === entry.jarId && !(jar.notes || []).some(note => note.id === entry.note.id)
+          ? { ...jar, notes: [...(jar.notes || []), entry.note] }
+          : jar
+      );
+    default:
+      return jars;
+  }
+};
+
+export const restoreCategories = (categories: Category[], entry: TrashEntry): Category[] =>
+  entry.kind === 'category' && !categories.some(category => category.id === entry.category.id)
+    ? [...categories, entry.category]
+    : categories;
+
+export const restoreNotes = (notes: Note[], entry: TrashEntry): Note[] =>
+  entry.kind === 'note' && !notes.some(note => note.id === entry.note.id) ? [...notes, entry.note] : notes;
+
+/**
+ * Drop entries deleted more than `retentionDays` ago
+ */
+export const purgeExpired = (trash: TrashEntry[], retentionDays: number, now: Date = new Date()): TrashEntry[] =>
+  trash.filter(entry => differenceInCalendarDays(now, new Date(entry.deletedAt)) < retentionDays);
+
+/**
+ * Reassign every jar of a category that is about to be deleted
+ */
+export const moveJarsToCategory = (jars: Jar[], fromCategoryId: number, toCategoryId: number): Jar[] =>
+  jars.map(jar => (jar.categoryId === fromCategoryId ? { ...jar, categoryId: toCategoryId } : jar));
@@ -0,0 +1,183 @@
+/**
+ * Zod schemas for the input forms. Unlike ./schemas, which describes the persisted
+ * shape, these take the raw strings typed by the user and carry the messages shown
+ * next to each field.
+ */
+import { z } from 'zod';
+import { formatMoney, getMinorUnitDigits, parseAmount } from './currency';
+import { toDateKey } from './recurring';
+import { getAvailableBalance } from './withdrawals';
+import type { Category, Jar } from './domain';
+
+/** Withdrawals above this share of the balance ask for confirmation */
+export const LARGE_WITHDRAWAL_SHARE = 0.5;
+
+// Whole-unit amounts beyond this are almost certainly typos
+const MAX_AMOUNT = 1_000_000_000_000;
+
+/**
+ * A positive money amount typed into a text field, with no more decimal places
+ * than the currency's minor unit allows
+ */
+export const amountField = (currency?: string) => {
+  const digits = getMinorUnitDigits(currency);
+  return z
+    .string()
+    .trim()
+    .min(1, 'Enter an amount')
+    .regex(/^(\d+\.?\d*|\.\d+)$/, 'Enter a number like 25 or 12.50')
+    .refine(
+      value => (value.split('.')[1] || '').length <= digits,
+      digits === 0 ? 'This currency has no decimal places' : `Use at most ${digits} decimal places`
+    )
+    .refine(value => Number(value) < MAX_AMOUNT, 'That amount is too large')
+    .refine(value => parseAmount(value, currency) !== null, 'Amount must be greater than zero');
+};
+
+const jarNameField = z.string().trim().min(1, 'Give your jar a name').max(50, 'Keep the name under 50 characters');
+
+const categoryIdField = z.number({ invalid_type_error: 'Choose a category' }).int().positive('Choose a category');
+
+// An existing date in the past may be kept while editing, just not picked anew
+const targetDateField = (currentTargetDate?: string) =>
+  z
+    .string()
+    .refine(
+      value => !value || value === currentTargetDate || value >= toDateKey(new Date()),
+      'Pick a date in the future'
+    );
+
+// The target's allowed precision depends on the currency picked in the same form
+const refineTarget = (values: { target?: string; currency?: string }, ctx: z.RefinementCtx) => {
+  const target = amountField(values.currency).safeParse(values.target);
+  if (!target.success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['target'], message: target.error.issues[0].message });
+  }
+};
+
+export const jarFormSchema = z
+  .object({
+    name: jarNameField,
+    target: z.string(),
+    currency: z.string().min(1, 'Choose a currency'),
+    categoryId: categoryIdField,
+    targetDate: targetDateField(),
+    overflowPolicy: z.enum(['keep', 'rollover', 'unallocated']),
+    rolloverJarId: z.number(),
+  })
+  .superRefine((values, ctx) => {
+    refineTarget(values, ctx);
+    if (values.overflowPolicy === 'rollover' && !values.rolloverJarId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rolloverJarId'], message: 'Choose the jar that gets the extra' });
+    }
+  });
+
+export type JarFormValues = z.infer<typeof jarFormSchema>;
+
+/**
+ * Editing an existing jar. `currentTargetDate` is the jar's saved date, which stays valid even once it has passed.
+ */
+export const jarEditFormSchema = (currentTargetDate?: string) =>
+  z
+    .object({
+      name: jarNameField,
+      target: z.string(),
+      currency: z.string().min(1, 'Choose a currency'),
+      categoryId: categoryIdField,
+      targetDate: targetDateField(currentTargetDate),
+    })
+    .superRefine(refineTarget);
+
+export type JarEditFormValues = z.infer<ReturnType<typeof jarEditFormSchema>>;
+
+export const depositFormSchema = (currency?: string) => z.object({ amount: amountField(currency) });
+
+export type AmountFormValues = z.infer<ReturnType<typeof depositFormSchema>>;
+
+/**
+ * A withdrawal can't take out more than the jar holds once queued withdrawals are set aside.
+ * The reason and note are optional.
+ */
+export const withdrawalFormSchema = (currency: string | undefined, available: number) =>
+  z.object({
+    amount: amountField(currency).refine(
+      value => (parseAmount(value, currency) ?? 0) <= available,
+      `There's only ${formatMoney(available, currency)} available in this jar`
+    ),
+    reason: z.enum(['', 'emergency', 'bills', 'planned', 'treat', 'impulse', 'other']),
+    note: z.string().trim().max(200, 'Keep the note under 200 characters'),
+  });
+
+export type WithdrawalFormValues = z.infer<ReturnType<typeof withdrawalFormSchema>>;
+
+/**
+ * Correcting the amount or date of a record in the ledger
+ */
+export const recordEditFormSchema = (currency?: string) =>
+  z.object({
+    amount: amountField(currency),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Pick a date'),
+  });
+
+export type RecordEditFormValues = z.infer<ReturnType<typeof recordEditFormSchema>>;
+
+export const recurringRuleFormSchema = (currency?: string) =>
+  z.object({
+    amount: amountField(currency),
+    frequency: z.enum(['daily', 'weekly', 'monthly']),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Pick a start date'),
+  });
+
+export type RecurringRuleFormValues = z.infer<ReturnType<typeof recurringRuleFormSchema>>;
+
+/**
+ * Category names are unique, ignoring case. `editingId` is the category being renamed.
+ */
+export const categoryFormSchema = (categories: Category[], editingId?: number) =>
+  z.object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Give the category a name')
+      .max(30, 'Keep the name under 30 characters')
+      .refine(
+        name => !categories.some(c => c.id !== editingId && c.name.trim().toLowerCase() === name.toLowerCase()),
+        'A category with this name already exists'
+      ),
+  });
+
+export type CategoryFormValues = z.infer<ReturnType<typeof categoryFormSchema>>;
+
+/**
+ * Milestones sit below the jar's target; the target itself is the final goal.
+ */
+export const milestoneFormSchema = (currency: string | undefined, target: number) =>
+  z.object({
+    name: z.string().trim().min(1, 'Name the milestone').max(40, 'Keep the name under 40 characters'),
+    amount: amountField(currency).refine(
+      value => (parseAmount(value, currency) ?? 0) < target,
+      `Milestones must be below the target of ${formatMoney(target, currency)}`
+    ),
+    targetDate: targetDateField(),
+  });
+
+export type MilestoneFormValues = z.infer<ReturnType<typeof milestoneFormSchema>>;
+
+export const noteFormSchema = z.object({
+  text: z.string().trim().min(1, 'Write something first').max(500, 'Notes are limited to 500 characters'),
+  color: z.string(),
+});
+
+export type NoteFormValues = z.infer<typeof noteFormSchema>;
+
+export type WithdrawalWarning = 'empties-jar' | 'large';
+
+/**
+ * Why a withdrawal needs a second look, or null if it can go through directly
+ */
+export const getWithdrawalWarning = (jar: Jar, amount: number): WithdrawalWarning | null => {
+  const available = getAvailableBalance(jar);
+  if (amount >= available) return 'empties-jar';
+  if (amount > available * LARGE_WITHDRAWAL_SHARE) return 'large';
+  return null;
+};
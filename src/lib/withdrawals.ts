@@ -0,0 +1,132 @@
+/**
+ * Mindful withdrawals: reason categories and the per-jar cooling-off queue.
+ * When a jar has a cooling-off period, a withdrawal is parked as pending and only
+ * leaves the jar once the period is over, or sooner if the user confirms it again.
+ */
+import { addHours } from 'date-fns';
+import { CurrencyPreferences, toBaseMinorUnits } from './currency';
+import {
+  Jar,
+  PendingWithdrawal,
+  TransactionRecord,
+  WithdrawalReason,
+  nextRecordId,
+  withdraw,
+} from './domain';
+
+export const WITHDRAWAL_REASONS: Record<WithdrawalReason, string> = {
+  emergency: 'Emergency',
+  bills: 'Bills & essentials',
+  planned: 'Planned purchase',
+  treat: 'Treat',
+  impulse: 'Impulse buy',
+  other: 'Other',
+};
+
+/** Cooling-off periods offered in the jar settings, in hours (0 = off) */
+export const COOLING_OFF_OPTIONS = [0, 1, 6, 12, 24, 48, 72];
+
+export interface ReleaseResult {
+  jars: Jar[];
+  /** Number of pending withdrawals that went through */
+  released: number;
+}
+
+export interface ReasonBreakdown {
+  reason: WithdrawalReason | 'unspecified';
+  label: string;
+  /** Total withdrawn in base-currency minor units */
+  amount: number;
+  count: number;
+}
+
+export const getPendingTotal = (jar: Jar): number =>
+  (jar.pendingWithdrawals || []).reduce((sum, pending) => sum + pending.amount, 0);
+
+/**
+ * What can still be withdrawn: the balance minus withdrawals already waiting in the queue
+ */
+export const getAvailableBalance = (jar: Jar): number => Math.max(jar.saved - getPendingTotal(jar), 0);
+
+/**
+ * Queue a withdrawal for the jar's cooling-off period
+ */
+export const requestWithdrawal = (
+  jar: Jar,
+  amount: number,
+  details: Pick<TransactionRecord, 'reason' | 'note'> = {},
+  now: Date = new Date()
+): Jar => {
+  const pending: PendingWithdrawal = {
+    id: nextRecordId(now),
+    amount,
+    requestedAt: now.toISOString(),
+    releaseAt: addHours(now, jar.coolingOffHours || 0).toISOString(),
+    ...details,
+  };
+  return { ...jar, pendingWithdrawals: [...(jar.pendingWithdrawals || []), pending] };
+};
+
+export const cancelPendingWithdrawal = (jar: Jar, pendingId: number): Jar => ({
+  ...jar,
+  pendingWithdrawals: (jar.pendingWithdrawals || []).filter(pending => pending.id !== pendingId),
+});
+
+/**
+ * Let a pending withdrawal go through now. Like any withdrawal it is capped at the balance.
+ */
+export const releasePendingWithdrawal = (jar: Jar, pendingId: number, date: Date = new Date()): Jar => {
+  const pending = (jar.pendingWithdrawals || []).find(p => p.id === pendingId);
+  if (!pending) return jar;
+  return withdraw(cancelPendingWithdrawal(jar, pendingId), pending.amount, date, {
+    reason: pending.reason,
+    note: pending.note,
+  });
+};
+
+/**
+ * Complete every withdrawal whose cooling-off period has ended, dated when it ended
+ */
+export const releaseDueWithdrawals = (jars: Jar[], now: Date = new Date()): ReleaseResult => {
+  let released = 0;
+  const updated = jars.map(jar => {
+    const due = (jar.pendingWithdrawals || []).filter(pending => new Date(pending.releaseAt) <= now);
+    return due.reduce((current, pending) => {
+      released += 1;
+      return releasePendingWithdrawal(current, pending.id, new Date(pending.releaseAt));
+    }, jar);
+  });
+  return { jars: released > 0 ? updated : jars, released };
+};
+
+/**
+ * When the next queued withdrawal is due, or null if nothing is waiting
+ */
+export const getNextRelease = (jars: Jar[]): Date | null => {
+  const times = jars.flatMap(jar => (jar.pendingWithdrawals || []).map(pending => new Date(pending.releaseAt).getTime()));
+  return times.length > 0 ? new Date(Math.min(...times)) : null;
+};
+
+/**
+ * Withdrawn amounts per reason across all jars, converted to the base currency.
+ * Jars whose currency has no exchange rate are left out.
+ */
+export const getWithdrawalReasonBreakdown = (jars: Jar[], settings: CurrencyPreferences): ReasonBreakdown[] => {
+  const totals = new Map<ReasonBreakdown['reason'], ReasonBreakdown>();
+  jars.forEach(jar => {
+    (jar.records || []).forEach(record => {
+      if (record.type !== 'withdrawn') return;
+      const amount = toBaseMinorUnits(record.amount, jar.currency, settings);
+      if (amount === null) return;
+      const reason = record.reason || 'unspecified';
+      const entry = totals.get(reason) || {
+        reason,
+        label: record.reason ? WITHDRAWAL_REASONS[record.reason] : 'No reason given',
+        amount: 0,
+        count: 0,
+      };
+      totals.set(reason, { ...entry, amount: entry.amount + amount, count: entry.count + 1 });
+    });
+  });
+  return [...totals.values()].sort((a, b) => b.amount - a.amount);
+};
@@ -1,75 +1,143 @@
-import { useState, useEffect } from 'react';
-import { Plus, Target, TrendingUp, Moon, Sun, Trash2 } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Plus, Target, TrendingUp, Moon, Sun, Trash2, Pencil, AlertTriangle, Undo2, Redo2 } from 'lucide-react';
 import SavingsButton from '@/components/SavingsButton';
 import JarVisualization from '@/components/JarVisualization';
 import SavingsChart from '@/components/SavingsChart';
 import EmotionalInsights from '@/components/EmotionalInsights';
 import { BackupSync } from '@/components/BackupSync';
 import { NotificationSettings } from '@/components/NotificationSettings';
+import { CurrencySettings } from '@/components/CurrencySettings';
+import { TrashBin } from '@/components/TrashBin';
+import { TransactionHistory } from '@/components/TransactionHistory';
+import { ToastAction } from '@/components/ui/toast';
+import RecurringRules from '@/components/RecurringRules';
+import StreakCard from '@/components/StreakCard';
+import FieldError from '@/components/FieldError';
+import PendingWithdrawals from '@/components/PendingWithdrawals';
+import MilestoneTimeline from '@/components/MilestoneTimeline';
+import ForecastCard from '@/components/ForecastCard';
 import { storage } from '@/lib/storage';
-import { formatCurrency } from '@/lib/utils';
+import { notifyNow } from '@/lib/notifications';
+import { getForecast } from '@/lib/forecast';
+import { PlannedRow, applyImport } from '@/lib/csvImport';
+import { BackupData, RestoreMode, mergeBackup } from '@/lib/backup';
+import { addMilestone, getMilestones, markReachedMilestones, removeMilestone } from '@/lib/milestones';
+import { catchUpRecurring } from '@/lib/recurring';
+import {
+  CURRENCIES,
+  CurrencyPreferences,
+  defaultCurrencyPreferences,
+  divideMinorUnits,
+  formatMoney,
+  getExchangeRate,
+  parseAmount,
+  sumInBase,
+  toAmountInput,
+  toCurrencyCode,
+} from '@/lib/currency';
+import {
+  Jar,
+  Category,
+  Milestone,
+  Note,
+  OverflowPolicy,
+  RecurringRule,
+  StreakCadence,
+  TransactionRecord,
+  UnallocatedEntry,
+  WithdrawalReason,
+  depositWithOverflow,
+  allocateUnallocated,
+  getUnallocatedBalances,
+  withdraw,
+  getProgress,
+  updateRecord,
+  deleteRecord,
+  checkConsistency,
+  repairJars,
+  changeJarCurrency,
+} from '@/lib/domain';
+import {
+  WITHDRAWAL_REASONS,
+  cancelPendingWithdrawal,
+  getAvailableBalance,
+  getNextRelease,
+  releaseDueWithdrawals,
+  releasePendingWithdrawal,
+  requestWithdrawal,
+} from '@/lib/withdrawals';
+import {
+  AmountFormValues,
+  CategoryFormValues,
+  JarEditFormValues,
+  JarFormValues,
+  NoteFormValues,
+  RecordEditFormValues,
+  WithdrawalFormValues,
+  WithdrawalWarning,
+  categoryFormSchema,
+  depositFormSchema,
+  getWithdrawalWarning,
+  jarEditFormSchema,
+  jarFormSchema,
+  noteFormSchema,
+  recordEditFormSchema,
+  withdrawalFormSchema,
+} from '@/lib/validation';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  TRASH_KIND_LABELS,
+  TrashEntry,
+  TrashItem,
+  createTrashEntry,
+  getRestoreBlocker,
+  getTrashEntryLabel,
+  moveJarsToCategory,
+  purgeExpired,
+  restoreCategories,
+  restoreJars,
+  restoreNotes,
+} from '@/lib/trash';
+import { useToast } from '@/hooks/use-toast';
+import { useHistory } from '@/hooks/use-history';
+import { useAutoBackup } from '@/hooks/use-auto-backup';
 import logoImg from '@/assets/logo.png';
 import { App as CapacitorApp } from '@capacitor/app';
+import { format } from 'date-fns';
 
-interface Jar {
-  id: number;
-  name: string;
-  target: number;
-  saved: number;
-  streak: number;
-  withdrawn: number;
-  notes?: JarNote[];
-  records?: TransactionRecord[];
-  currency?: string;
-  categoryId?: number;
-  targetDate?: string;
-  createdAt?: string;
-}
-
-interface Category {
-  id: number;
-  name: string;
-  icon: string;
-}
-
-interface Note {
-  id: number;
-  text: string;
-  color: string;
-}
-
-interface JarNote {
-  id: number;
-  text: string;
-  color: string;
-}
-
-interface TransactionRecord {
-  id: number;
-  type: 'saved' | 'withdrawn';
-  amount: number;
-  date: Date;
-}
+const emptyJarForm = (categoryId = 0): JarFormValues => ({
+  name: '',
+  target: '',
+  currency: 'USD',
+  categoryId,
+  targetDate: '',
+  overflowPolicy: 'keep',
+  rolloverJarId: 0,
+});
+
+const emptyNoteForm = (): NoteFormValues => ({ text: '', color: 'yellow' });
 
 const Index = () => {
+  const { toast } = useToast();
   const [jars, setJars] = useState<Jar[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showEditJarModal, setShowEditJarModal] = useState(false);
   const [selectedJar, setSelectedJar] = useState<Jar | null>(null);
   const [showConfetti, setShowConfetti] = useState(false);
   const [darkMode, setDarkMode] = useState(false);
-  const [newJar, setNewJar] = useState({ name: '', target: '', currency: '$', categoryId: 0, targetDate: '' });
   const [showCategoryModal, setShowCategoryModal] = useState(false);
-  const [newCategory, setNewCategory] = useState({ name: '', icon: '' });
-  const [addAmount, setAddAmount] = useState('');
-  const [withdrawAmount, setWithdrawAmount] = useState('');
   const [notes, setNotes] = useState<Note[]>([]);
+  const [unallocated, setUnallocated] = useState<UnallocatedEntry[]>([]);
+  const [currencyPreferences, setCurrencyPreferences] = useState<CurrencyPreferences>(defaultCurrencyPreferences([]));
+  const [trash, setTrash] = useState<TrashEntry[]>([]);
+  const [trashRetention, setTrashRetention] = useState(DEFAULT_TRASH_RETENTION_DAYS);
   const [showNoteModal, setShowNoteModal] = useState(false);
-  const [newNote, setNewNote] = useState({ text: '', color: 'yellow' });
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [jarToDelete, setJarToDelete] = useState<Jar | null>(null);
   const [showJarNoteModal, setShowJarNoteModal] = useState(false);
-  const [newJarNote, setNewJarNote] = useState({ text: '', color: 'yellow' });
   const [showRecordsModal, setShowRecordsModal] = useState(false);
   const [showCalculator, setShowCalculator] = useState(false);
   const [calcTargetAmount, setCalcTargetAmount] = useState('');
@@ -81,51 +149,223 @@ const Index = () => {
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [showDeleteCategoryConfirm, setShowDeleteCategoryConfirm] = useState(false);
   const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(null);
+  // Category that receives the jars of a deleted category; 0 sends them to the trash too
+  const [moveJarsTo, setMoveJarsTo] = useState(0);
   const [selectedCategoryId, setSelectedCategoryId] = useState<number | null>(null);
+  const [editingRecordId, setEditingRecordId] = useState<number | null>(null);
+
+  const [withdrawalToConfirm, setWithdrawalToConfirm] = useState<{
+    amount: number;
+    reason?: WithdrawalReason;
+    note?: string;
+    warning: WithdrawalWarning;
+  } | null>(null);
+
+  // A currency change on a jar with history waits here until the conversion is confirmed
+  const [jarEditToConfirm, setJarEditToConfirm] = useState<{ values: JarEditFormValues; rate: number | null } | null>(null);
+
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Everything a user action can change; undo and redo swap these as a whole
+  const history = useHistory(
+    { jars, categories, notes, unallocated, trash },
+    snapshot => {
+      setJars(snapshot.jars);
+      setCategories(snapshot.categories);
+      setNotes(snapshot.notes);
+      setUnallocated(snapshot.unallocated);
+      setTrash(snapshot.trash);
+    }
+  );
+  const patchHistory = history.patch;
 
-  // Load data from localStorage on mount
+  // Latest state for callbacks that outlive the render that created them, like a toast's undo action
+  const latest = useRef({ jars, categories, trash });
+  latest.current = { jars, categories, trash };
+
+  // Form state and validation; schemas that depend on the selected jar are rebuilt on every render
+  const jarForm = useForm<JarFormValues>({ resolver: zodResolver(jarFormSchema), defaultValues: emptyJarForm() });
+  const jarEditForm = useForm<JarEditFormValues>({
+    resolver: zodResolver(jarEditFormSchema(selectedJar?.targetDate)),
+    defaultValues: { name: '', target: '', currency: 'USD', categoryId: 0, targetDate: '' },
+  });
+  const depositForm = useForm<AmountFormValues>({
+    resolver: zodResolver(depositFormSchema(selectedJar?.currency)),
+    defaultValues: { amount: '' },
+  });
+  const withdrawForm = useForm<WithdrawalFormValues>({
+    resolver: zodResolver(withdrawalFormSchema(selectedJar?.currency, selectedJar ? getAvailableBalance(selectedJar) : 0)),
+    defaultValues: { amount: '', reason: '', note: '' },
+  });
+  const recordEditForm = useForm<RecordEditFormValues>({
+    resolver: zodResolver(recordEditFormSchema(selectedJar?.currency)),
+    defaultValues: { amount: '', date: '' },
+  });
+  const categoryForm = useForm<CategoryFormValues>({
+    resolver: zodResolver(categoryFormSchema(categories)),
+    defaultValues: { name: '' },
+  });
+  const editCategoryForm = useForm<CategoryFormValues>({
+    resolver: zodResolver(categoryFormSchema(categories, editingCategory?.id)),
+    defaultValues: { name: '' },
+  });
+  const noteForm = useForm<NoteFormValues>({ resolver: zodResolver(noteFormSchema), defaultValues: emptyNoteForm() });
+  const jarNoteForm = useForm<NoteFormValues>({ resolver: zodResolver(noteFormSchema), defaultValues: emptyNoteForm() });
+  const newJarCurrency = jarForm.watch('currency');
+  const newJarPolicy = jarForm.watch('overflowPolicy');
+  const [editTarget, editCurrency, editTargetDate] = jarEditForm.watch(['target', 'currency', 'targetDate']);
+  const noteColor = noteForm.watch('color');
+  const jarNoteColor = jarNoteForm.watch('color');
+
+  // Load persisted data on mount
   useEffect(() => {
-    const loadedJars = storage.loadJars();
-    const loadedCategories = storage.loadCategories();
-    const loadedNotes = storage.loadNotes();
-    const loadedDarkMode = storage.loadDarkMode();
-
-    setJars(loadedJars);
-    setCategories(loadedCategories);
-    setNotes(loadedNotes);
-    setDarkMode(loadedDarkMode);
-  }, []);
+    const loadData = async () => {
+      const [
+        loadedJars,
+        loadedCategories,
+        loadedNotes,
+        loadedDarkMode,
+        loadedUnallocated,
+        loadedCurrency,
+        loadedTrash,
+        loadedRetention,
+      ] = await Promise.all([
+        storage.loadJars(),
+        storage.loadCategories(),
+        storage.loadNotes(),
+        storage.loadDarkMode(),
+        storage.loadUnallocated(),
+        storage.loadCurrencyPreferences(),
+        storage.loadTrash(),
+        storage.loadTrashRetention(),
+      ]);
+
+      // Book any recurring deposits that came due while the app was closed
+      const caughtUp = catchUpRecurring(loadedJars);
+
+      setJars(caughtUp.jars);
+      setCategories(loadedCategories);
+      setNotes(loadedNotes);
+      setDarkMode(loadedDarkMode);
+      setUnallocated([...loadedUnallocated, ...caughtUp.unallocated]);
+      setCurrencyPreferences(loadedCurrency || defaultCurrencyPreferences(loadedJars.map(jar => jar.currency)));
+      setTrash(purgeExpired(loadedTrash, loadedRetention));
+      setTrashRetention(loadedRetention);
+      setIsLoaded(true);
+
+      if (caughtUp.generated > 0) {
+        toast({
+          title: 'Recurring deposits added',
+          description: `${caughtUp.generated} scheduled ${caughtUp.generated === 1 ? 'deposit was' : 'deposits were'} added while you were away.`,
+        });
+      }
+    };
 
-  // Save jars to localStorage whenever they change
+    loadData();
+  }, [toast]);
+
+  // Save jars whenever they change (only after the initial load, so empty state never overwrites stored data)
   useEffect(() => {
-    if (jars.length >= 0) {
+    if (isLoaded) {
       storage.saveJars(jars);
     }
-  }, [jars]);
+  }, [jars, isLoaded]);
 
-  // Save categories to localStorage whenever they change
+  // Save categories whenever they change
   useEffect(() => {
-    if (categories.length >= 0) {
+    if (isLoaded) {
       storage.saveCategories(categories);
     }
-  }, [categories]);
+  }, [categories, isLoaded]);
 
-  // Save notes to localStorage whenever they change
+  // Save notes whenever they change
   useEffect(() => {
-    if (notes.length >= 0) {
+    if (isLoaded) {
       storage.saveNotes(notes);
     }
-  }, [notes]);
+  }, [notes, isLoaded]);
+
+  // Save the unallocated pool whenever it changes
+  useEffect(() => {
+    if (isLoaded) {
+      storage.saveUnallocated(unallocated);
+    }
+  }, [unallocated, isLoaded]);
+
+  // Save the trash and its retention period whenever they change
+  useEffect(() => {
+    if (isLoaded) {
+      storage.saveTrash(trash);
+    }
+  }, [trash, isLoaded]);
+
+  useEffect(() => {
+    if (isLoaded) {
+      storage.saveTrashRetention(trashRetention);
+    }
+  }, [trashRetention, isLoaded]);
 
-  // Save dark mode to localStorage whenever it changes
+  // Keep the open jar in step with changes made outside its own handlers (restores, automatic releases)
   useEffect(() => {
-    storage.saveDarkMode(darkMode);
+    setSelectedJar(current => (current ? jars.find(j => j.id === current.id) || null : null));
+  }, [jars]);
+
+  // Celebrate milestones as soon as a balance reaches them, however the money got there
+  useEffect(() => {
+    if (!isLoaded) return;
+    const result = markReachedMilestones(jars);
+    if (result.reached.length === 0) return;
+    setJars(result.jars);
+    // Not a user step: stamp snapshots too, so an undo can't bring the milestone (and its alert) back
+    patchHistory(snapshot => ({ ...snapshot, jars: markReachedMilestones(snapshot.jars).jars }));
+    setShowConfetti(true);
+    setTimeout(() => setShowConfetti(false), 3000);
+    result.reached.forEach(({ jar, milestone }) => {
+      const description = `"${jar.name}" reached ${milestone.name} at ${formatMoney(milestone.amount, jar.currency)}.`;
+      toast({ title: 'Milestone reached! 🎉', description });
+      notifyNow(milestone.id, 'Milestone reached! 🎉', description);
+    });
+  }, [jars, isLoaded, toast, patchHistory]);
+
+  // Let queued withdrawals go through once their cooling-off period ends
+  useEffect(() => {
+    if (!isLoaded) return;
+    const nextRelease = getNextRelease(jars);
+    if (!nextRelease) return;
+    // setTimeout can't wait longer than ~24.8 days; the effect re-arms after each release
+    const delay = Math.min(Math.max(nextRelease.getTime() - Date.now(), 0), 2 ** 31 - 1);
+    const timer = setTimeout(() => {
+      const result = releaseDueWithdrawals(jars);
+      if (result.released === 0) return;
+      setJars(result.jars);
+      // Releases aren't user steps; undoing an earlier action must not queue the withdrawal again
+      patchHistory(snapshot => ({ ...snapshot, jars: releaseDueWithdrawals(snapshot.jars).jars }));
+      toast({
+        title: 'Withdrawal completed',
+        description: `${result.released} ${result.released === 1 ? 'withdrawal has' : 'withdrawals have'} finished cooling off.`,
+      });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [jars, isLoaded, toast, patchHistory]);
+
+  // Save the base currency and exchange rates whenever they change
+  useEffect(() => {
+    if (isLoaded) {
+      storage.saveCurrencyPreferences(currencyPreferences);
+    }
+  }, [currencyPreferences, isLoaded]);
+
+  // Save dark mode whenever it changes
+  useEffect(() => {
+    if (isLoaded) {
+      storage.saveDarkMode(darkMode);
+    }
     if (darkMode) {
       document.documentElement.classList.add('dark');
     } else {
       document.documentElement.classList.remove('dark');
     }
-  }, [darkMode]);
+  }, [darkMode, isLoaded]);
 
   // Handle Capacitor back button
   useEffect(() => {
@@ -137,7 +377,8 @@ const Index = () => {
           // If viewing jar details, go back to home
           setSelectedJar(null);
         } else if (showCreateModal || showCategoryModal || showNoteModal || 
-                   showJarNoteModal || showRecordsModal || showDeleteConfirm || showCalculator) {
+                   showJarNoteModal || showRecordsModal || showDeleteConfirm || showCalculator || withdrawalToConfirm ||
+                   showEditJarModal || jarEditToConfirm) {
           // If any modal is open, close it
           setShowCreateModal(false);
           setShowCategoryModal(false);
@@ -146,6 +387,9 @@ const Index = () => {
           setShowRecordsModal(false);
           setShowDeleteConfirm(false);
           setShowCalculator(false);
+          setWithdrawalToConfirm(null);
+          setShowEditJarModal(false);
+          setJarEditToConfirm(null);
         } else if (!canGoBack) {
           // If nothing is open and can't go back, let the default behavior (exit app) happen
           CapacitorApp.exitApp();
@@ -161,7 +405,8 @@ const Index = () => {
       }
     };
   }, [selectedJar, showCreateModal, showCategoryModal, showNoteModal, 
-      showJarNoteModal, showRecordsModal, showDeleteConfirm, showCalculator]);
+      showJarNoteModal, showRecordsModal, showDeleteConfirm, showCalculator, withdrawalToConfirm,
+      showEditJarModal, jarEditToConfirm]);
 
   // Handle clicks outside notes to deselect
   useEffect(() => {
@@ -177,6 +422,34 @@ const Index = () => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  const undoLast = () => {
+    const label = history.undo();
+    if (label) toast({ title: 'Undone', description: label });
+  };
+
+  const redoLast = () => {
+    const label = history.redo();
+    if (label) toast({ title: 'Redone', description: label });
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        redoLast();
+      } else {
+        undoLast();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
 
   const noteColors: Record<string, { bg: string; border: string }> = {
     yellow: { bg: '#FEFF9C', border: '#E5E67A' },
@@ -187,95 +460,280 @@ const Index = () => {
     lightgreen: { bg: '#B8F5CD', border: '#86EFAC' }
   };
 
-  const createJar = () => {
-    if (newJar.name && newJar.target && categories.length > 0) {
-      const jar: Jar = {
-        id: Date.now(),
-        name: newJar.name,
-        target: parseFloat(newJar.target),
-        saved: 0,
-        streak: 0,
-        withdrawn: 0,
-        notes: [],
-        records: [],
-        currency: newJar.currency,
-        categoryId: newJar.categoryId || categories[0].id,
-        targetDate: newJar.targetDate || undefined,
-        createdAt: new Date().toISOString(),
-      };
-      setJars([...jars, jar]);
-      setNewJar({ name: '', target: '', currency: '$', categoryId: categories[0].id, targetDate: '' });
-      setShowCreateModal(false);
+  const createJar = jarForm.handleSubmit(values => {
+    if (categories.length === 0) return;
+    const jar: Jar = {
+      id: Date.now(),
+      name: values.name,
+      // Validated by the form schema
+      target: parseAmount(values.target, values.currency)!,
+      saved: 0,
+      streak: 0,
+      withdrawn: 0,
+      notes: [],
+      records: [],
+      currency: values.currency,
+      categoryId: values.categoryId || categories[0].id,
+      targetDate: values.targetDate || undefined,
+      createdAt: new Date().toISOString(),
+      overflowPolicy: values.overflowPolicy,
+      rolloverJarId: values.overflowPolicy === 'rollover' && values.rolloverJarId ? values.rolloverJarId : undefined,
+    };
+    history.record(`Created "${jar.name}"`);
+    setJars([...jars, jar]);
+    jarForm.reset(emptyJarForm(categories[0].id));
+    setShowCreateModal(false);
+  });
+
+  const openEditJar = (jar: Jar) => {
+    jarEditForm.reset({
+      name: jar.name,
+      target: toAmountInput(jar.target, jar.currency),
+      currency: toCurrencyCode(jar.currency),
+      categoryId: jar.categoryId || categories[0]?.id || 0,
+      targetDate: jar.targetDate || '',
+    });
+    setShowEditJarModal(true);
+  };
+
+  // Amounts are converted at `rate` when the currency changes (1 keeps their face value)
+  const applyJarEdit = (values: JarEditFormValues, rate: number) => {
+    if (!selectedJar) return;
+    const original = selectedJar;
+    const converted = values.currency === toCurrencyCode(original.currency)
+      ? original
+      : changeJarCurrency(original, values.currency, rate);
+    // A rollover jar in another currency can't take the extra any more
+    const rolloverJar = jars.find(j => j.id === converted.rolloverJarId);
+    const keepsRollover = converted.overflowPolicy !== 'rollover' ||
+      (!!rolloverJar && toCurrencyCode(rolloverJar.currency) === values.currency);
+    const updated: Jar = {
+      ...converted,
+      name: values.name,
+      target: parseAmount(values.target, values.currency)!,
+      categoryId: values.categoryId,
+      targetDate: values.targetDate || undefined,
+      ...(keepsRollover ? {} : { overflowPolicy: 'keep' as const, rolloverJarId: undefined }),
+    };
+
+    updateSelectedJar(`Edited "${original.name}"`, () => updated);
+    setShowEditJarModal(false);
+    setJarEditToConfirm(null);
+
+    if (original.saved < original.target && updated.saved >= updated.target) {
+      setShowConfetti(true);
+      setTimeout(() => setShowConfetti(false), 3000);
+      toast({ title: 'Goal reached!', description: `"${updated.name}" already holds its new target.` });
+    }
+    if (!keepsRollover) {
+      toast({
+        title: 'Rollover turned off',
+        description: `${rolloverJar!.name} uses a different currency, so extra savings now stay in "${updated.name}".`,
+      });
     }
   };
 
-  const createCategory = () => {
-    if (newCategory.name) {
-      const category: Category = {
-        id: Date.now(),
-        name: newCategory.name,
-        icon: ''
-      };
-      setCategories([...categories, category]);
-      setNewCategory({ name: '', icon: '' });
-      setShowCategoryModal(false);
+  const saveJarEdit = jarEditForm.handleSubmit(values => {
+    if (!selectedJar) return;
+    const currencyChanged = values.currency !== toCurrencyCode(selectedJar.currency);
+    const hasAmounts = (selectedJar.records || []).length > 0 ||
+      (selectedJar.recurring || []).length > 0 ||
+      (selectedJar.pendingWithdrawals || []).length > 0 ||
+      (selectedJar.milestones || []).length > 0;
+    if (currencyChanged && hasAmounts) {
+      setJarEditToConfirm({ values, rate: getExchangeRate(selectedJar.currency, values.currency, currencyPreferences) });
+    } else {
+      applyJarEdit(values, 1);
     }
+  });
+
+  const createCategory = categoryForm.handleSubmit(values => {
+    const category: Category = {
+      id: Date.now(),
+      name: values.name,
+      icon: ''
+    };
+    history.record(`Created category "${category.name}"`);
+    setCategories([...categories, category]);
+    categoryForm.reset({ name: '' });
+    setShowCategoryModal(false);
+  });
+
+  const updateCategory = editCategoryForm.handleSubmit(values => {
+    if (!editingCategory) return;
+    const updatedCategories = categories.map(cat =>
+      cat.id === editingCategory.id ? { ...cat, name: values.name } : cat
+    );
+    history.record(`Renamed "${editingCategory.name}" to "${values.name}"`);
+    setCategories(updatedCategories);
+    setShowEditCategoryModal(false);
+    setEditingCategory(null);
+  });
+
+  // Put a deleted item in the trash and offer to undo right away
+  const moveToTrash = (item: TrashItem) => {
+    const entry = createTrashEntry(item);
+    setTrash(current => [...current, entry]);
+    toast({
+      title: `${TRASH_KIND_LABELS[entry.kind]} moved to trash`,
+      description: `"${getTrashEntryLabel(entry)}" can be restored for ${trashRetention} days.`,
+      action: (
+        <ToastAction altText="Undo delete" onClick={() => restoreFromTrash(entry)}>
+          Undo
+        </ToastAction>
+      ),
+    });
   };
 
-  const updateCategory = () => {
-    if (editingCategory && editingCategory.name.trim()) {
-      const updatedCategories = categories.map(cat =>
-        cat.id === editingCategory.id ? editingCategory : cat
-      );
-      setCategories(updatedCategories);
-      setShowEditCategoryModal(false);
-      setEditingCategory(null);
+  // Reads the latest state and updates functionally, so an undo clicked later checks and
+  // restores against the data as it is then, without rolling back changes made since
+  const restoreFromTrash = (entry: TrashEntry) => {
+    const current = latest.current;
+    // Already restored or deleted for good
+    if (!current.trash.some(e => e.id === entry.id)) return;
+    const blocker = getRestoreBlocker(entry, current.jars, current.categories);
+    if (blocker) {
+      toast({ title: 'Could not restore', description: blocker, variant: 'destructive' });
+      return;
     }
+    const restoredCategories = restoreCategories(current.categories, entry);
+    history.record(`Restored "${getTrashEntryLabel(entry)}" from the trash`);
+    setCategories(restoredCategories);
+    setJars(jarsNow => restoreJars(jarsNow, entry, restoredCategories));
+    setNotes(notesNow => restoreNotes(notesNow, entry));
+    setTrash(trashNow => trashNow.filter(e => e.id !== entry.id));
+  };
+
+  const deleteForever = (entryId: number) => {
+    history.record('Deleted an item from the trash for good');
+    setTrash(trash.filter(entry => entry.id !== entryId));
   };
 
+  const updateTrashRetention = (days: number) => {
+    setTrashRetention(days);
+    setTrash(purgeExpired(trash, days));
+  };
+
+  const importCsvTransactions = (rows: PlannedRow[], includeDuplicates: boolean, categoryId: number | null) => {
+    const result = applyImport(jars, rows, {
+      includeDuplicates,
+      newJarCurrency: currencyPreferences.baseCurrency,
+      categoryId: categoryId ?? undefined,
+    });
+    if (result.imported === 0) return;
+    const count = `${result.imported} ${result.imported === 1 ? 'transaction' : 'transactions'}`;
+    history.record(`Imported ${count}`);
+    setJars(result.jars);
+    toast({
+      title: 'Import complete',
+      description: result.created > 0
+        ? `${count} added, with ${result.created} new ${result.created === 1 ? 'jar' : 'jars'}.`
+        : `${count} added.`,
+    });
+  };
+
+  // Everything a backup holds, as it is on this device now
+  const backupData: BackupData = {
+    jars,
+    categories,
+    notes,
+    unallocated,
+    trash,
+    settings: { darkMode, currency: currencyPreferences, trashRetention },
+  };
+  const autoBackup = useAutoBackup(backupData, isLoaded);
+
+  const restoreBackup = (data: BackupData, mode: RestoreMode) => {
+    const restored = mode === 'merge' ? mergeBackup(backupData, data) : data;
+    // Recurring deposits that came due since the backup was made are booked like after a restart
+    const caughtUp = catchUpRecurring(restored.jars);
+    history.record(mode === 'merge' ? 'Merged a backup' : 'Restored a backup');
+    setJars(caughtUp.jars);
+    setCategories(restored.categories);
+    setNotes(restored.notes);
+    setUnallocated([...restored.unallocated, ...caughtUp.unallocated]);
+    setTrash(restored.trash);
+    if (mode === 'replace') {
+      setDarkMode(data.settings.darkMode);
+      setCurrencyPreferences(data.settings.currency || defaultCurrencyPreferences(data.jars.map(jar => jar.currency)));
+      setTrashRetention(data.settings.trashRetention);
+    }
+    toast({
+      title: mode === 'merge' ? 'Backup merged' : 'Backup restored',
+      description: mode === 'merge'
+        ? 'New jars, transactions and notes from the backup were added.'
+        : 'Your data now matches the backup.',
+    });
+  };
+
+  const confirmDeleteCategory = (category: Category) => {
+    setCategoryToDelete(category);
+    setMoveJarsTo(categories.find(c => c.id !== category.id)?.id ?? 0);
+    setShowEditCategoryModal(false);
+    setEditingCategory(null);
+    setShowDeleteCategoryConfirm(true);
+  };
+
+  // The category's jars move to another category unless the user chose to trash them as well
   const deleteCategory = (categoryId: number) => {
-    // Delete all jars associated with this category
-    const updatedJars = jars.filter(jar => jar.categoryId !== categoryId);
-    setJars(updatedJars);
-    
-    // Delete the category
-    const updatedCategories = categories.filter(cat => cat.id !== categoryId);
-    setCategories(updatedCategories);
-    
+    const category = categories.find(cat => cat.id === categoryId);
+    if (!category) return;
+    const categoryJars = getCategoryJars(categoryId);
+    const destination = categories.find(cat => cat.id === moveJarsTo && cat.id !== categoryId);
+
+    history.record(`Deleted category "${category.name}"`);
+    if (destination) {
+      setJars(moveJarsToCategory(jars, categoryId, destination.id));
+    } else {
+      setJars(jars.filter(jar => jar.categoryId !== categoryId));
+    }
+    setCategories(categories.filter(cat => cat.id !== categoryId));
+    moveToTrash({
+      kind: 'category',
+      category,
+      jars: destination ? [] : categoryJars,
+      ...(destination && categoryJars.length > 0 ? { movedJarIds: categoryJars.map(jar => jar.id) } : {}),
+    });
+
     setShowDeleteCategoryConfirm(false);
     setCategoryToDelete(null);
+    setSelectedCategoryId(null);
   };
 
   const getCategoryJars = (categoryId: number) => {
     return jars.filter(jar => jar.categoryId === categoryId);
   };
 
+  // Category sums are converted to the base currency since a category can mix currencies
   const getCategoryTotal = (categoryId: number) => {
-    return getCategoryJars(categoryId).reduce((sum, jar) => sum + jar.saved, 0);
+    return sumInBase(getCategoryJars(categoryId).map(jar => ({ amount: jar.saved, currency: jar.currency })), currencyPreferences).total;
   };
 
   const getCategoryTarget = (categoryId: number) => {
-    return getCategoryJars(categoryId).reduce((sum, jar) => sum + jar.target, 0);
+    return sumInBase(getCategoryJars(categoryId).map(jar => ({ amount: jar.target, currency: jar.currency })), currencyPreferences).total;
   };
 
-  const addJarNote = () => {
-    if (newJarNote.text.trim() && selectedJar) {
-      const updatedJars = jars.map(jar => {
-        if (jar.id === selectedJar.id) {
-          const updatedNotes = [...(jar.notes || []), { id: Date.now(), text: newJarNote.text, color: newJarNote.color }];
-          return { ...jar, notes: updatedNotes };
-        }
-        return jar;
-      });
-      setJars(updatedJars);
-      setSelectedJar(updatedJars.find(j => j.id === selectedJar.id) || null);
-      setNewJarNote({ text: '', color: 'yellow' });
-      setShowJarNoteModal(false);
-    }
-  };
+  const addJarNote = jarNoteForm.handleSubmit(values => {
+    if (!selectedJar) return;
+    history.record(`Added a note to ${selectedJar.name}`);
+    const updatedJars = jars.map(jar => {
+      if (jar.id === selectedJar.id) {
+        const updatedNotes = [...(jar.notes || []), { id: Date.now(), text: values.text, color: values.color }];
+        return { ...jar, notes: updatedNotes };
+      }
+      return jar;
+    });
+    setJars(updatedJars);
+    setSelectedJar(updatedJars.find(j => j.id === selectedJar.id) || null);
+    jarNoteForm.reset(emptyNoteForm());
+    setShowJarNoteModal(false);
+  });
 
   const deleteJarNote = (noteId: number) => {
-    if (selectedJar) {
+    const note = selectedJar?.notes?.find(n => n.id === noteId);
+    if (selectedJar && note) {
+      history.record(`Deleted a note from ${selectedJar.name}`);
+      moveToTrash({ kind: 'jarNote', jarId: selectedJar.id, note });
       const updatedJars = jars.map(jar => {
         if (jar.id === selectedJar.id) {
           const updatedNotes = (jar.notes || []).filter(n => n.id !== noteId);
@@ -288,20 +746,27 @@ const Index = () => {
     }
   };
 
-  const addNote = () => {
-    if (newNote.text.trim()) {
-      setNotes([...notes, { id: Date.now(), text: newNote.text, color: newNote.color }]);
-      setNewNote({ text: '', color: 'yellow' });
-      setShowNoteModal(false);
-    }
-  };
+  const addNote = noteForm.handleSubmit(values => {
+    history.record('Added a note');
+    setNotes([...notes, { id: Date.now(), text: values.text, color: values.color }]);
+    noteForm.reset(emptyNoteForm());
+    setShowNoteModal(false);
+  });
 
   const deleteNote = (noteId: number) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note) return;
+    history.record('Deleted a note');
     setNotes(notes.filter(n => n.id !== noteId));
+    moveToTrash({ kind: 'note', note });
   };
 
   const deleteJar = (jarId: number) => {
+    const jar = jars.find(j => j.id === jarId);
+    if (!jar) return;
+    history.record(`Deleted "${jar.name}"`);
     setJars(jars.filter(j => j.id !== jarId));
+    moveToTrash({ kind: 'jar', jar });
     setShowDeleteConfirm(false);
     setJarToDelete(null);
     if (selectedJar && selectedJar.id === jarId) {
@@ -309,119 +774,252 @@ const Index = () => {
     }
   };
 
-  const addMoney = () => {
-    if (!addAmount || !selectedJar) return;
-    const amount = parseFloat(addAmount);
-    const updatedJars = jars.map(jar => {
-      if (jar.id === selectedJar.id) {
-        const newSaved = Math.min(jar.saved + amount, jar.target);
-        if (newSaved >= jar.target && jar.saved < jar.target) {
-          setShowConfetti(true);
-          setTimeout(() => setShowConfetti(false), 3000);
-        }
-        const newRecord: TransactionRecord = {
-          id: Date.now(),
-          type: 'saved',
-          amount: amount,
-          date: new Date()
-        };
-        return { 
-          ...jar, 
-          saved: newSaved, 
-          streak: jar.streak + 1,
-          records: [...(jar.records || []), newRecord]
-        };
-      }
-      return jar;
-    });
+  const addMoney = depositForm.handleSubmit(values => {
+    if (!selectedJar) return;
+    const amount = parseAmount(values.amount, selectedJar.currency)!;
+    const result = depositWithOverflow(jars, selectedJar.id, amount);
+    if (result.reachedTarget) {
+      setShowConfetti(true);
+      setTimeout(() => setShowConfetti(false), 3000);
+    }
+    if (result.overflow) {
+      const destination = result.overflow.to === 'unallocated'
+        ? 'the unallocated pool'
+        : jars.find(j => j.id === result.overflow!.to)?.name;
+      toast({
+        title: 'Goal reached!',
+        description: `${formatAmount(result.overflow.amount, selectedJar.currency)} above the target moved to ${destination}.`,
+      });
+    }
+    history.record(`Added ${formatAmount(amount, selectedJar.currency)} to ${selectedJar.name}`);
+    setJars(result.jars);
+    setUnallocated([...unallocated, ...result.unallocated]);
+    setSelectedJar(result.jars.find(j => j.id === selectedJar.id) || null);
+    depositForm.reset({ amount: '' });
+  });
+
+  const updateOverflowPolicy = (overflowPolicy: OverflowPolicy, rolloverJarId?: number) => {
+    if (!selectedJar) return;
+    history.record(`Changed where extra savings go for ${selectedJar.name}`);
+    const updatedJars = jars.map(jar =>
+      jar.id === selectedJar.id ? { ...jar, overflowPolicy, rolloverJarId: overflowPolicy === 'rollover' ? rolloverJarId : undefined } : jar
+    );
     setJars(updatedJars);
     setSelectedJar(updatedJars.find(j => j.id === selectedJar.id) || null);
-    setAddAmount('');
   };
 
-  const withdrawMoney = () => {
-    if (!withdrawAmount || !selectedJar) return;
-    const amount = parseFloat(withdrawAmount);
-    const updatedJars = jars.map(jar => {
-      if (jar.id === selectedJar.id) {
-        const newSaved = Math.max(jar.saved - amount, 0);
-        const newWithdrawn = jar.withdrawn + amount;
-        const newRecord: TransactionRecord = {
-          id: Date.now(),
-          type: 'withdrawn',
-          amount: amount,
-          date: new Date()
-        };
-        return { 
-          ...jar, 
-          saved: newSaved, 
-          withdrawn: newWithdrawn,
-          records: [...(jar.records || []), newRecord]
-        };
-      }
-      return jar;
-    });
+  const allocatePoolToJar = (jarId: number) => {
+    const jar = jars.find(j => j.id === jarId);
+    const result = jar && allocateUnallocated(jar, unallocated);
+    if (!result) return;
+    history.record(`Moved unallocated money to ${jar.name}`);
+    setJars(jars.map(j => (j.id === jarId ? result.jar : j)));
+    setUnallocated([...unallocated, result.entry]);
+  };
+
+  const updateRecurringRules = (recurring: RecurringRule[]) => {
+    if (!selectedJar) return;
+    history.record(`Updated recurring deposits for ${selectedJar.name}`);
+    const updatedJars = jars.map(jar => (jar.id === selectedJar.id ? { ...jar, recurring } : jar));
+    setJars(updatedJars);
+    setSelectedJar(updatedJars.find(j => j.id === selectedJar.id) || null);
+  };
+
+  const updateStreakCadence = (streakCadence: StreakCadence) => {
+    if (!selectedJar) return;
+    history.record(`Changed the streak period for ${selectedJar.name}`);
+    const updatedJars = jars.map(jar => (jar.id === selectedJar.id ? { ...jar, streakCadence } : jar));
     setJars(updatedJars);
     setSelectedJar(updatedJars.find(j => j.id === selectedJar.id) || null);
-    setWithdrawAmount('');
   };
 
-  const getProgress = (jar: Jar) => ((jar.saved / jar.target) * 100).toFixed(1);
+  // Rollover targets must share the jar's currency so no conversion is needed
+  const getRolloverCandidates = (jarId: number, currency?: string) =>
+    jars.filter(jar => jar.id !== jarId && toCurrencyCode(jar.currency) === toCurrencyCode(currency));
+
+  const updateSelectedJar = (label: string, update: (jar: Jar) => Jar) => {
+    if (!selectedJar) return;
+    history.record(label);
+    const updatedJars = jars.map(jar => (jar.id === selectedJar.id ? update(jar) : jar));
+    setJars(updatedJars);
+    setSelectedJar(updatedJars.find(j => j.id === selectedJar.id) || null);
+  };
+
+  // With a cooling-off period the withdrawal is queued instead of taken out right away
+  const completeWithdrawal = (amount: number, details: { reason?: WithdrawalReason; note?: string }) => {
+    if (!selectedJar) return;
+    const coolingOff = (selectedJar.coolingOffHours || 0) > 0;
+    updateSelectedJar(
+      `${coolingOff ? 'Requested' : 'Withdrew'} ${formatAmount(amount, selectedJar.currency)} from ${selectedJar.name}`,
+      jar => (coolingOff ? requestWithdrawal(jar, amount, details) : withdraw(jar, amount, new Date(), details))
+    );
+    if (coolingOff) {
+      toast({
+        title: 'Withdrawal queued',
+        description: `${formatAmount(amount, selectedJar.currency)} will leave "${selectedJar.name}" after the ${selectedJar.coolingOffHours}-hour cooling-off period.`,
+      });
+    }
+    setWithdrawalToConfirm(null);
+    withdrawForm.reset({ amount: '', reason: '', note: '' });
+  };
+
+  // Large withdrawals and ones that would empty the jar wait for confirmation
+  const withdrawMoney = withdrawForm.handleSubmit(values => {
+    if (!selectedJar) return;
+    const amount = parseAmount(values.amount, selectedJar.currency)!;
+    const details = { reason: values.reason || undefined, note: values.note || undefined };
+    const warning = getWithdrawalWarning(selectedJar, amount);
+    if (warning) {
+      setWithdrawalToConfirm({ amount, ...details, warning });
+    } else {
+      completeWithdrawal(amount, details);
+    }
+  });
+
+  const updateCoolingOff = (coolingOffHours: number) =>
+    updateSelectedJar(`Changed the cooling-off period for ${selectedJar?.name}`, jar => ({ ...jar, coolingOffHours }));
+
+  const releaseWithdrawal = (pendingId: number) =>
+    updateSelectedJar(`Completed a waiting withdrawal from ${selectedJar?.name}`, jar => releasePendingWithdrawal(jar, pendingId));
+
+  const addJarMilestone = (milestone: Omit<Milestone, 'id' | 'reachedAt'>) =>
+    updateSelectedJar(`Added the milestone "${milestone.name}" to ${selectedJar?.name}`, jar => addMilestone(jar, milestone));
+
+  const removeJarMilestone = (milestoneId: number) =>
+    updateSelectedJar(`Removed a milestone from ${selectedJar?.name}`, jar => removeMilestone(jar, milestoneId));
+
+  const cancelWithdrawal = (pendingId: number) =>
+    updateSelectedJar(`Cancelled a waiting withdrawal from ${selectedJar?.name}`, jar => cancelPendingWithdrawal(jar, pendingId));
+
+  const applyRecordChange = (label: string, update: (jar: Jar) => Jar) => {
+    if (!selectedJar) return;
+    const updatedJar = update(jars.find(j => j.id === selectedJar.id) || selectedJar);
+    if (updatedJar.saved < 0) {
+      toast({
+        title: 'Change not applied',
+        description: 'That would leave the jar with a negative balance.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    history.record(label);
+    const updatedJars = jars.map(jar => (jar.id === updatedJar.id ? updatedJar : jar));
+    setJars(updatedJars);
+    setSelectedJar(updatedJar);
+  };
+
+  const startRecordEdit = (record: TransactionRecord) => {
+    if (!selectedJar) return;
+    setEditingRecordId(record.id);
+    recordEditForm.reset({
+      amount: toAmountInput(record.amount, selectedJar.currency),
+      date: format(new Date(record.date), 'yyyy-MM-dd'),
+    });
+  };
+
+  const saveRecordEdit = recordEditForm.handleSubmit(values => {
+    if (editingRecordId === null || !selectedJar) return;
+    const recordId = editingRecordId;
+    const amount = parseAmount(values.amount, selectedJar.currency)!;
+    const date = new Date(`${values.date}T00:00:00`);
+    applyRecordChange(`Edited a record in ${selectedJar.name}`, jar => {
+      const original = (jar.records || []).find(r => r.id === recordId);
+      // Keep the original time of day when only the calendar date was edited
+      if (original) {
+        const originalDate = new Date(original.date);
+        date.setHours(originalDate.getHours(), originalDate.getMinutes(), originalDate.getSeconds());
+      }
+      return updateRecord(jar, recordId, { amount, date });
+    });
+    setEditingRecordId(null);
+  });
+
+  const unallocatedBalances = Object.entries(getUnallocatedBalances(unallocated)).filter(([, amount]) => amount > 0);
+
+  const removeRecord = (recordId: number) => {
+    applyRecordChange(`Deleted a record from ${selectedJar?.name}`, jar => deleteRecord(jar, recordId));
+  };
+
+  const consistencyIssues = checkConsistency(jars);
+
+  const repairInconsistentJars = () => {
+    const repaired = repairJars(jars);
+    history.record('Repaired jar balances');
+    setJars(repaired);
+    toast({
+      title: 'Balances repaired',
+      description: `Recomputed ${consistencyIssues.length} ${consistencyIssues.length === 1 ? 'jar' : 'jars'} from their transaction history.`,
+    });
+  };
+
+  const getProgressLabel = (jar: Jar) => getProgress(jar).toFixed(1);
+
+  // Numbered like the milestone timeline in the detail view
+  const getMilestoneMarkers = (jar: Jar) =>
+    getMilestones(jar).map((milestone, index) => ({
+      progress: jar.target > 0 ? (milestone.amount / jar.target) * 100 : 0,
+      label: String(index + 1),
+      reached: !!milestone.reachedAt,
+    }));
+
+  const compactAmounts = currencyPreferences.amountDisplay !== 'full';
+  const formatAmount = (amount: number, currency?: string, signed = false) =>
+    formatMoney(amount, currency, { compact: compactAmounts, signed });
 
   const bgColor = darkMode ? 'bg-gray-900' : 'bg-gradient-to-br from-blue-50 via-purple-50 to-pink-50';
   const cardBg = darkMode ? 'bg-gray-800' : 'bg-white';
   const textColor = darkMode ? 'text-white' : 'text-gray-800';
   const textSecondary = darkMode ? 'text-gray-400' : 'text-gray-600';
 
-  const chartData = jars.map(jar => ({
-    name: jar.name.length > 10 ? jar.name.substring(0, 10) + '...' : jar.name,
-    saved: jar.saved,
-    withdrawn: jar.withdrawn
-  }));
-
-  const totalSaved = jars.reduce((sum, jar) => sum + jar.saved, 0);
-  const totalTarget = jars.reduce((sum, jar) => sum + jar.target, 0);
+  const savedInBase = sumInBase(jars.map(jar => ({ amount: jar.saved, currency: jar.currency })), currencyPreferences);
+  const targetInBase = sumInBase(jars.map(jar => ({ amount: jar.target, currency: jar.currency })), currencyPreferences);
+  const totalSaved = savedInBase.total;
+  const totalTarget = targetInBase.total;
+  const missingRates = [...new Set([...savedInBase.missing, ...targetInBase.missing])];
 
   const calculateDailySavings = () => {
     if (calcTargetAmount && calcTargetDate) {
-      const target = parseFloat(calcTargetAmount);
+      const target = parseAmount(calcTargetAmount, currencyPreferences.baseCurrency);
       const targetDate = new Date(calcTargetDate);
       const today = new Date();
       const daysRemaining = Math.ceil((targetDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
       
-      if (daysRemaining > 0) {
-        setDailySavings(target / daysRemaining);
+      if (target !== null && daysRemaining > 0) {
+        // Round up to the next minor unit so saving this much every day reaches the target
+        setDailySavings(divideMinorUnits(target, daysRemaining, 'up'));
       } else {
         setDailySavings(null);
       }
     }
   };
 
+  // Plan amounts are rounded up to whole minor units so following the plan never falls short.
+  // Without a target date the horizon is the forecast completion date from the jar's real pace.
   const getInvestmentPlan = (jar: Jar) => {
-    const remaining = jar.target - jar.saved;
-    
-    if (jar.targetDate) {
-      const targetDate = new Date(jar.targetDate);
-      const today = new Date();
-      const daysRemaining = Math.ceil((targetDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-      
-      if (daysRemaining > 0) {
-        return {
-          daily: remaining / daysRemaining,
-          weekly: remaining / (daysRemaining / 7),
-          monthly: remaining / (daysRemaining / 30)
-        };
-      }
-    }
-    
-    // Default calculation if no target date
+    const remaining = Math.max(jar.target - jar.saved, 0);
+    const today = new Date();
+    const horizon = jar.targetDate ? new Date(jar.targetDate) : getForecast(jar, today).expected.completion;
+    if (!horizon) return null;
+    const daysRemaining = Math.ceil((horizon.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    if (daysRemaining <= 0) return null;
     return {
-      daily: remaining / 30,
-      weekly: remaining / 4,
-      monthly: remaining
+      daily: divideMinorUnits(remaining, daysRemaining, 'up'),
+      weekly: divideMinorUnits(remaining * 7, daysRemaining, 'up'),
+      monthly: divideMinorUnits(remaining * 30, daysRemaining, 'up')
     };
   };
 
+  const investmentPlan = selectedJar ? getInvestmentPlan(selectedJar) : null;
+
+  // Progress and savings plan as they would be after the edit; only shown while the currency is unchanged
+  const editPreview = (() => {
+    if (!selectedJar || !showEditJarModal || editCurrency !== toCurrencyCode(selectedJar.currency)) return null;
+    const target = parseAmount(editTarget || '', editCurrency);
+    if (target === null) return null;
+    const preview = { ...selectedJar, target, targetDate: editTargetDate || undefined };
+    return { progress: getProgress(preview), plan: getInvestmentPlan(preview) };
+  })();
+
   return (
     <div className={`min-h-screen ${bgColor} transition-colors duration-300`}>
       {showConfetti && (
@@ -442,10 +1040,52 @@ const Index = () => {
             </div>
             <div className="flex items-center gap-2">
               <NotificationSettings />
-              <BackupSync 
-                onExport={() => {}} 
-                onImport={() => {}}
+              <TrashBin
+                trash={trash}
+                retentionDays={trashRetention}
+                jars={jars}
+                categories={categories}
+                onRestore={restoreFromTrash}
+                onDeleteForever={deleteForever}
+                onEmpty={() => {
+                  history.record('Emptied the trash');
+                  setTrash([]);
+                }}
+                onRetentionChange={updateTrashRetention}
+              />
+              <CurrencySettings
+                preferences={currencyPreferences}
+                currenciesInUse={[...new Set(jars.map(jar => toCurrencyCode(jar.currency)))]}
+                onChange={setCurrencyPreferences}
               />
+              <TransactionHistory
+                jars={jars}
+                categories={categories}
+                settings={currencyPreferences}
+                compact={compactAmounts}
+              />
+              <BackupSync
+                data={backupData}
+                baseCurrency={currencyPreferences.baseCurrency}
+                autoBackup={autoBackup}
+                onRestore={restoreBackup}
+                onImportCsv={importCsvTransactions}
+              />
+              {[
+                { label: history.undoLabel, verb: 'Undo', onClick: undoLast, Icon: Undo2 },
+                { label: history.redoLabel, verb: 'Redo', onClick: redoLast, Icon: Redo2 },
+              ].map(({ label, verb, onClick, Icon }) => (
+                <button
+                  key={verb}
+                  onClick={onClick}
+                  disabled={!label}
+                  title={label ? `${verb}: ${label}` : `Nothing to ${verb.toLowerCase()}`}
+                  aria-label={label ? `${verb}: ${label}` : verb}
+                  className={`p-2 sm:p-3 rounded-full ${darkMode ? 'bg-gray-800/80' : 'bg-white/80'} backdrop-blur-sm shadow-lg hover:shadow-xl transition-all border ${darkMode ? 'border-gray-700' : 'border-gray-200'} disabled:opacity-40 disabled:hover:shadow-lg`}
+                >
+                  <Icon className={darkMode ? 'text-gray-300' : 'text-gray-700'} size={20} />
+                </button>
+              ))}
               <button
                 onClick={() => setDarkMode(!darkMode)}
                 className={`p-2 sm:p-3 rounded-full ${darkMode ? 'bg-gray-800/80' : 'bg-white/80'} backdrop-blur-sm shadow-lg hover:shadow-xl transition-all border ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}
@@ -461,6 +1101,23 @@ const Index = () => {
 
         {!selectedJar ? (
           <>
+            {consistencyIssues.length > 0 && (
+              <div className={`${darkMode ? 'bg-amber-900/30 border-amber-700' : 'bg-amber-50 border-amber-300'} border rounded-2xl p-4 mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3`}>
+                <div className="flex items-start gap-3">
+                  <AlertTriangle className="text-amber-500 flex-shrink-0 mt-0.5" size={20} />
+                  <div>
+                    <p className={`font-semibold ${textColor}`}>Some balances don't match their history</p>
+                    <p className={`text-sm ${textSecondary}`}>
+                      {consistencyIssues.map(issue => issue.jarName).join(', ')}
+                    </p>
+                  </div>
+                </div>
+                <SavingsButton onClick={repairInconsistentJars} variant="secondary" size="sm" className="whitespace-nowrap">
+                  Repair
+                </SavingsButton>
+              </div>
+            )}
+
             {jars.length > 0 && (
               <div className="space-y-6 mb-6">
                 <EmotionalInsights
@@ -468,15 +1125,59 @@ const Index = () => {
                   totalTarget={totalTarget}
                   jarsCount={jars.length}
                   darkMode={darkMode}
-                  currency={jars.length > 0 ? jars[jars.length - 1].currency : '$'}
+                  currency={currencyPreferences.baseCurrency}
+                  compact={compactAmounts}
                 />
 
+                {missingRates.length > 0 && (
+                  <div className={`${darkMode ? 'bg-amber-900/30 border-amber-700' : 'bg-amber-50 border-amber-300'} border rounded-2xl p-4 flex items-start gap-3`}>
+                    <AlertTriangle className="text-amber-500 flex-shrink-0 mt-0.5" size={20} />
+                    <p className={`text-sm ${textSecondary}`}>
+                      No exchange rate to {currencyPreferences.baseCurrency} for {missingRates.join(', ')}. Those jars are left out of totals and charts until you add a rate in currency settings.
+                    </p>
+                  </div>
+                )}
+
+                {unallocatedBalances.length > 0 && (
+                  <div className={`${cardBg} rounded-3xl p-4 sm:p-6 shadow-lg`}>
+                    <div className="flex items-center gap-3 mb-4">
+                      <span className="text-2xl sm:text-3xl">🪙</span>
+                      <h2 className={`text-xl sm:text-2xl font-bold ${textColor}`}>Unallocated</h2>
+                    </div>
+                    <div className="space-y-3">
+                      {unallocatedBalances.map(([currency, amount]) => (
+                        <div key={currency} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                          <p className="text-lg font-bold text-amber-600">{formatAmount(amount, currency)}</p>
+                          <select
+                            value=""
+                            onChange={(e) => allocatePoolToJar(parseInt(e.target.value))}
+                            className={`px-4 py-2 rounded-xl border-2 border-primary focus:outline-none ${
+                              darkMode ? 'bg-gray-700 text-white' : ''
+                            }`}
+                          >
+                            <option value="" disabled>Move to jar…</option>
+                            {jars.filter(jar => toCurrencyCode(jar.currency) === currency).map(jar => (
+                              <option key={jar.id} value={jar.id}>{jar.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className={`${cardBg} rounded-3xl p-4 sm:p-6 shadow-lg`}>
                   <div className="flex items-center gap-3 mb-4">
                     <span className="text-2xl sm:text-3xl">📊</span>
                     <h2 className={`text-xl sm:text-2xl font-bold ${textColor}`}>Savings Reports</h2>
                   </div>
-                  <SavingsChart data={chartData} darkMode={darkMode} />
+                  <SavingsChart
+                    jars={jars}
+                    categories={categories}
+                    darkMode={darkMode}
+                    settings={currencyPreferences}
+                    compact={compactAmounts}
+                  />
                 </div>
               </div>
             )}
@@ -569,6 +1270,7 @@ const Index = () => {
                               onClick={(e) => {
                                 e.stopPropagation();
                                 setEditingCategory(category);
+                                editCategoryForm.reset({ name: category.name });
                                 setShowEditCategoryModal(true);
                               }}
                               className={`p-2 rounded-lg ${darkMode ? 'bg-gray-600 hover:bg-gray-500' : 'bg-white hover:bg-gray-100'} transition-colors`}
@@ -581,10 +1283,10 @@ const Index = () => {
                           )}
                           <div className="text-right ml-2">
                             <p className={`text-base sm:text-lg font-bold text-green-600`}>
-                              {categoryJars.length > 0 ? categoryJars[0].currency : '$'}{formatCurrency(categoryTotal)}
+                              {formatAmount(categoryTotal, currencyPreferences.baseCurrency)}
                             </p>
                             <p className={`text-xs ${textSecondary}`}>
-                              of {categoryJars.length > 0 ? categoryJars[0].currency : '$'}{formatCurrency(categoryTarget)}
+                              of {formatAmount(categoryTarget, currencyPreferences.baseCurrency)}
                             </p>
                             <p className={`text-xs font-bold ${
                               parseFloat(categoryProgress) >= 75 ? 'text-green-600' :
@@ -600,7 +1302,7 @@ const Index = () => {
                       {/* Subcategories (Jars) - Horizontal Scrollable */}
                       <div className="flex gap-3 overflow-x-auto pb-2 -mx-2 px-2 scrollbar-thin scrollbar-thumb-primary scrollbar-track-transparent">
                         {categoryJars.map(jar => {
-                          const progress = parseFloat(getProgress(jar));
+                          const progress = parseFloat(getProgressLabel(jar));
                           return (
                             <div
                               key={jar.id}
@@ -619,7 +1321,7 @@ const Index = () => {
                               </button>
                               <h4 className={`text-sm sm:text-base font-bold ${textColor} mb-2`}>{jar.name}</h4>
                               <div className="relative h-24 sm:h-32 mb-2 flex items-center justify-center">
-                                <JarVisualization progress={progress} jarId={jar.id} isLarge={false} />
+                                <JarVisualization progress={progress} jarId={jar.id} isLarge={false} markers={getMilestoneMarkers(jar)} />
                               </div>
                               <div className="text-center mb-2">
                                 <div
@@ -633,11 +1335,11 @@ const Index = () => {
                                 </div>
                               </div>
                               <div className={`flex justify-between items-center text-xs`}>
-                                <span className="text-green-600 font-semibold">{jar.currency || '$'}{formatCurrency(jar.saved)}</span>
-                                <span className="text-red-600 font-semibold">
-                                  -{jar.currency || '$'}{formatCurrency(Math.abs(jar.saved - jar.target))}
+                                <span className="text-green-600 font-semibold">{formatAmount(jar.saved, jar.currency)}</span>
+                                <span className={`${jar.saved > jar.target ? 'text-amber-600' : 'text-red-600'} font-semibold`}>
+                                  {formatAmount(jar.saved - jar.target, jar.currency, true)}
                                 </span>
-                                <span className={textSecondary}>{jar.currency || '$'}{formatCurrency(jar.target)}</span>
+                                <span className={textSecondary}>{formatAmount(jar.target, jar.currency)}</span>
                               </div>
                             </div>
                           );
@@ -651,7 +1353,7 @@ const Index = () => {
                 <div className="flex items-center justify-center py-8">
                   <SavingsButton onClick={() => {
                     if (categories.length > 0) {
-                      setNewJar({ name: '', target: '', currency: '$', categoryId: categories[0].id, targetDate: '' });
+                      jarForm.reset(emptyJarForm(categories[0].id));
                     }
                     setShowCreateModal(true);
                   }} size="default" className="whitespace-nowrap text-sm sm:text-base w-auto">
@@ -669,17 +1371,23 @@ const Index = () => {
               <button onClick={() => setSelectedJar(null)} className={`${textSecondary} hover:underline text-sm sm:text-base`}>
                 ← Back
               </button>
-              <SavingsButton
-                variant="danger"
-                size="sm"
-                onClick={() => {
-                  setJarToDelete(selectedJar);
-                  setShowDeleteConfirm(true);
-                }}
-                className="text-sm"
-              >
-                Delete
-              </SavingsButton>
+              <div className="flex gap-2">
+                <SavingsButton variant="secondary" size="sm" onClick={() => openEditJar(selectedJar)} className="text-sm">
+                  <Pencil size={14} className="inline mr-1" />
+                  Edit
+                </SavingsButton>
+                <SavingsButton
+                  variant="danger"
+                  size="sm"
+                  onClick={() => {
+                    setJarToDelete(selectedJar);
+                    setShowDeleteConfirm(true);
+                  }}
+                  className="text-sm"
+                >
+                  Delete
+                </SavingsButton>
+              </div>
             </div>
             <h2 className={`text-xl sm:text-2xl md:text-3xl font-bold mb-2 ${textColor}`}>{selectedJar.name}</h2>
             {selectedJar.createdAt && (
@@ -694,16 +1402,21 @@ const Index = () => {
               </p>
             )}
             <div className="relative h-56 sm:h-72 md:h-96 mb-4 sm:mb-6 flex items-center justify-center">
-              <JarVisualization progress={parseFloat(getProgress(selectedJar))} jarId={selectedJar.id} isLarge={true} />
+              <JarVisualization
+                progress={parseFloat(getProgressLabel(selectedJar))}
+                jarId={selectedJar.id}
+                isLarge={true}
+                markers={getMilestoneMarkers(selectedJar)}
+              />
             </div>
             <div className="text-center mb-4 sm:mb-6">
               <div
                 className={`text-3xl sm:text-4xl md:text-5xl font-bold ${(() => {
-                  const p = parseFloat(getProgress(selectedJar));
+                  const p = parseFloat(getProgressLabel(selectedJar));
                   return p >= 75 ? 'text-green-600' : p >= 50 ? 'text-blue-600' : p >= 25 ? 'text-orange-600' : 'text-red-600';
                 })()}`}
               >
-                {getProgress(selectedJar)}%
+                {getProgressLabel(selectedJar)}%
               </div>
             </div>
             <div className="grid grid-cols-2 gap-3 sm:gap-4 mb-4 sm:mb-6">
@@ -712,44 +1425,103 @@ const Index = () => {
                   <TrendingUp className="text-green-600" size={16} />
                   <span className={`text-xs sm:text-sm ${textSecondary}`}>Saved</span>
                 </div>
-                <p className={`text-base sm:text-xl md:text-2xl font-bold text-green-600 break-words`}>{selectedJar.currency || '$'}{formatCurrency(selectedJar.saved)}</p>
+                <p className={`text-base sm:text-xl md:text-2xl font-bold text-green-600 break-words`}>{formatAmount(selectedJar.saved, selectedJar.currency)}</p>
               </div>
               <div className={`${darkMode ? 'bg-gray-700' : 'bg-purple-50'} rounded-xl sm:rounded-2xl p-3 sm:p-4`}>
                 <div className="flex items-center gap-1.5 sm:gap-2 mb-1.5 sm:mb-2">
                   <Target className="text-purple-500" size={16} />
                   <span className={`text-xs sm:text-sm ${textSecondary}`}>Target</span>
                 </div>
-                <p className={`text-base sm:text-xl md:text-2xl font-bold ${textColor} break-words`}>{selectedJar.currency || '$'}{formatCurrency(selectedJar.target)}</p>
+                <p className={`text-base sm:text-xl md:text-2xl font-bold ${textColor} break-words`}>{formatAmount(selectedJar.target, selectedJar.currency)}</p>
               </div>
             </div>
             <div className="space-y-3 mb-6">
-              <div className="flex gap-3 items-stretch">
-                <input
-                  type="number"
-                  placeholder={`Amount (${selectedJar.currency || '$'})`}
-                  value={addAmount}
-                  onChange={(e) => setAddAmount(e.target.value)}
-                  className={`w-[140px] px-3 sm:px-4 py-2.5 sm:py-3 text-sm sm:text-base rounded-xl border-2 border-gray-300 focus:border-primary focus:outline-none ${
-                    darkMode ? 'bg-gray-700 text-white' : ''
-                  }`}
-                />
-                <SavingsButton onClick={addMoney} size="default" className="text-sm sm:text-base flex-1 whitespace-nowrap">
-                  Add
-                </SavingsButton>
+              <div>
+                <div className="flex gap-3 items-stretch">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={`Amount (${toCurrencyCode(selectedJar.currency)})`}
+                    {...depositForm.register('amount')}
+                    className={`w-[140px] px-3 sm:px-4 py-2.5 sm:py-3 text-sm sm:text-base rounded-xl border-2 focus:border-primary focus:outline-none ${
+                      depositForm.formState.errors.amount ? 'border-red-500' : 'border-gray-300'
+                    } ${darkMode ? 'bg-gray-700 text-white' : ''}`}
+                  />
+                  <SavingsButton onClick={addMoney} size="default" className="text-sm sm:text-base flex-1 whitespace-nowrap">
+                    Add
+                  </SavingsButton>
+                </div>
+                <FieldError message={depositForm.formState.errors.amount?.message} />
               </div>
-              <div className="flex gap-3 items-stretch">
-                <input
-                  type="number"
-                  placeholder={`Amount (${selectedJar.currency || '$'})`}
-                  value={withdrawAmount}
-                  onChange={(e) => setWithdrawAmount(e.target.value)}
-                  className={`w-[140px] px-3 sm:px-4 py-2.5 sm:py-3 text-sm sm:text-base rounded-xl border-2 border-gray-300 focus:border-primary focus:outline-none ${
-                    darkMode ? 'bg-gray-700 text-white' : ''
+              <div>
+                <div className="flex gap-3 items-stretch">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={`Amount (${toCurrencyCode(selectedJar.currency)})`}
+                    {...withdrawForm.register('amount')}
+                    className={`w-[140px] px-3 sm:px-4 py-2.5 sm:py-3 text-sm sm:text-base rounded-xl border-2 focus:border-primary focus:outline-none ${
+                      withdrawForm.formState.errors.amount ? 'border-red-500' : 'border-gray-300'
+                    } ${darkMode ? 'bg-gray-700 text-white' : ''}`}
+                  />
+                  <SavingsButton onClick={withdrawMoney} variant="danger" size="default" className="text-sm sm:text-base flex-1 whitespace-nowrap">
+                    {(selectedJar.coolingOffHours || 0) > 0 ? 'Request Withdrawal' : 'Withdraw'}
+                  </SavingsButton>
+                </div>
+                <FieldError message={withdrawForm.formState.errors.amount?.message} />
+                <div className="flex flex-col sm:flex-row gap-2 mt-2">
+                  <select
+                    {...withdrawForm.register('reason')}
+                    className={`sm:w-[200px] px-3 py-2 text-sm rounded-xl border-2 border-gray-300 focus:border-primary focus:outline-none ${
+                      darkMode ? 'bg-gray-700 text-white' : ''
+                    }`}
+                  >
+                    <option value="">Reason (optional)</option>
+                    {Object.entries(WITHDRAWAL_REASONS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    placeholder="Note (optional)"
+                    {...withdrawForm.register('note')}
+                    className={`flex-1 px-3 py-2 text-sm rounded-xl border-2 border-gray-300 focus:border-primary focus:outline-none ${
+                      darkMode ? 'bg-gray-700 text-white' : ''
+                    }`}
+                  />
+                </div>
+                <FieldError message={withdrawForm.formState.errors.note?.message} />
+              </div>
+            </div>
+
+            <div className={`${darkMode ? 'bg-gray-700' : 'bg-amber-50'} rounded-2xl p-4 mb-6`}>
+              <label className={`block text-sm font-semibold mb-2 ${textColor}`}>When the Goal Is Reached</label>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <select
+                  value={selectedJar.overflowPolicy || 'keep'}
+                  onChange={(e) => updateOverflowPolicy(e.target.value as OverflowPolicy, selectedJar.rolloverJarId)}
+                  className={`flex-1 px-3 py-2 rounded-xl border-2 border-gray-300 focus:border-primary focus:outline-none ${
+                    darkMode ? 'bg-gray-800 text-white' : 'bg-white'
                   }`}
-                />
-                <SavingsButton onClick={withdrawMoney} variant="danger" size="default" className="text-sm sm:text-base flex-1 whitespace-nowrap">
-                  Withdraw
-                </SavingsButton>
+                >
+                  <option value="keep">Keep extra savings in this jar</option>
+                  <option value="rollover">Roll extra into another jar</option>
+                  <option value="unallocated">Move extra to unallocated</option>
+                </select>
+                {selectedJar.overflowPolicy === 'rollover' && (
+                  <select
+                    value={selectedJar.rolloverJarId || 0}
+                    onChange={(e) => updateOverflowPolicy('rollover', parseInt(e.target.value) || undefined)}
+                    className={`flex-1 px-3 py-2 rounded-xl border-2 border-gray-300 focus:border-primary focus:outline-none ${
+                      darkMode ? 'bg-gray-800 text-white' : 'bg-white'
+                    }`}
+                  >
+                    <option value={0}>Choose a jar</option>
+                    {getRolloverCandidates(selectedJar.id, selectedJar.currency).map(jar => (
+                      <option key={jar.id} value={jar.id}>{jar.name}</option>
+                    ))}
+                  </select>
+                )}
               </div>
             </div>
 
@@ -772,39 +1544,65 @@ const Index = () => {
                   </span>
                 )}
               </h3>
-              {selectedJar.targetDate && (
-                <p className={`text-xs ${textSecondary} mb-4`}>
-                  Based on your target date
+              <p className={`text-xs ${textSecondary} mb-4`}>
+                {selectedJar.targetDate ? 'Based on your target date' : 'Based on your current saving pace'}
+              </p>
+              {investmentPlan ? (
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-3 text-center`}>
+                      <p className={`text-xs ${textSecondary} mb-1`}>Daily</p>
+                      <p className={`text-xl font-bold ${textColor}`}>
+                        {formatAmount(investmentPlan.daily, selectedJar.currency)}
+                      </p>
+                    </div>
+                    <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-3 text-center`}>
+                      <p className={`text-xs ${textSecondary} mb-1`}>Weekly</p>
+                      <p className={`text-xl font-bold ${textColor}`}>
+                        {formatAmount(investmentPlan.weekly, selectedJar.currency)}
+                      </p>
+                    </div>
+                    <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-3 text-center`}>
+                      <p className={`text-xs ${textSecondary} mb-1`}>Monthly</p>
+                      <p className={`text-xl font-bold ${textColor}`}>
+                        {formatAmount(investmentPlan.monthly, selectedJar.currency)}
+                      </p>
+                    </div>
+                  </div>
+                  <p className={`text-xs ${textSecondary} text-center mt-3`}>
+                    {selectedJar.targetDate
+                      ? `Save these amounts to reach your ${formatAmount(selectedJar.target, selectedJar.currency)} goal by your target date`
+                      : `Keep saving these amounts to reach your ${formatAmount(selectedJar.target, selectedJar.currency)} goal on the forecast date`
+                    }
+                  </p>
+                </>
+              ) : (
+                <p className={`text-sm ${textSecondary}`}>
+                  {selectedJar.saved >= selectedJar.target
+                    ? 'Goal reached, nothing left to plan.'
+                    : selectedJar.targetDate
+                      ? 'Your target date has passed. Pick a new one to get a plan.'
+                      : 'Set a target date or make a few deposits to get a plan.'}
                 </p>
               )}
-              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
-                <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-3 text-center`}>
-                  <p className={`text-xs ${textSecondary} mb-1`}>Daily</p>
-                  <p className={`text-xl font-bold ${textColor}`}>
-                    {selectedJar.currency || '$'}{formatCurrency(getInvestmentPlan(selectedJar).daily)}
-                  </p>
-                </div>
-                <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-3 text-center`}>
-                  <p className={`text-xs ${textSecondary} mb-1`}>Weekly</p>
-                  <p className={`text-xl font-bold ${textColor}`}>
-                    {selectedJar.currency || '$'}{formatCurrency(getInvestmentPlan(selectedJar).weekly)}
-                  </p>
-                </div>
-                <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-3 text-center`}>
-                  <p className={`text-xs ${textSecondary} mb-1`}>Monthly</p>
-                  <p className={`text-xl font-bold ${textColor}`}>
-                    {selectedJar.currency || '$'}{formatCurrency(getInvestmentPlan(selectedJar).monthly)}
-                  </p>
-                </div>
-              </div>
-              <p className={`text-xs ${textSecondary} text-center mt-3`}>
-                {selectedJar.targetDate 
-                  ? `Save these amounts to reach your ${selectedJar.currency || '$'}${formatCurrency(selectedJar.target)} goal by your target date`
-                  : `Projected amounts to reach your ${selectedJar.currency || '$'}${formatCurrency(selectedJar.target)} goal`
-                }
-              </p>
             </div>
 
+            <ForecastCard jar={selectedJar} darkMode={darkMode} compact={compactAmounts} />
+
+            <MilestoneTimeline jar={selectedJar} darkMode={darkMode} onAdd={addJarMilestone} onRemove={removeJarMilestone} />
+
+            <PendingWithdrawals
+              jar={selectedJar}
+              darkMode={darkMode}
+              onCoolingOffChange={updateCoolingOff}
+              onRelease={releaseWithdrawal}
+              onCancel={cancelWithdrawal}
+            />
+
+            <StreakCard jar={selectedJar} darkMode={darkMode} onCadenceChange={updateStreakCadence} />
+
+            <RecurringRules jar={selectedJar} darkMode={darkMode} onChange={updateRecurringRules} />
+
             {selectedJar.notes && selectedJar.notes.length > 0 && (
               <div className={`${darkMode ? 'bg-gray-700' : 'bg-gray-50'} rounded-2xl p-4 mb-6`}>
                 <h3 className={`text-lg font-bold ${textColor} mb-3`}>Sticky Notes</h3>
@@ -868,29 +1666,33 @@ const Index = () => {
               </>
             ) : (
               <>
-                <input
-                  type="text"
-                  placeholder="Jar Name"
-                  value={newJar.name}
-                  onChange={(e) => setNewJar({ ...newJar, name: e.target.value })}
-                  className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none mb-4 ${
-                    darkMode ? 'bg-gray-700 text-white' : ''
-                  }`}
-                />
-                <input
-                  type="number"
-                  placeholder={`Target (${newJar.currency})`}
-                  value={newJar.target}
-                  onChange={(e) => setNewJar({ ...newJar, target: e.target.value })}
-                  className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none mb-4 ${
-                    darkMode ? 'bg-gray-700 text-white' : ''
-                  }`}
-                />
+                <div className="mb-4">
+                  <input
+                    type="text"
+                    placeholder="Jar Name"
+                    {...jarForm.register('name')}
+                    className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none ${
+                      darkMode ? 'bg-gray-700 text-white' : ''
+                    }`}
+                  />
+                  <FieldError message={jarForm.formState.errors.name?.message} />
+                </div>
+                <div className="mb-4">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    placeholder={`Target (${newJarCurrency})`}
+                    {...jarForm.register('target')}
+                    className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none ${
+                      darkMode ? 'bg-gray-700 text-white' : ''
+                    }`}
+                  />
+                  <FieldError message={jarForm.formState.errors.target?.message} />
+                </div>
                 <div className="mb-4">
                   <label className={`block text-sm font-medium mb-2 ${textColor}`}>Category</label>
                   <select
-                    value={newJar.categoryId}
-                    onChange={(e) => setNewJar({ ...newJar, categoryId: parseInt(e.target.value) })}
+                    {...jarForm.register('categoryId', { valueAsNumber: true })}
                     className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none ${
                       darkMode ? 'bg-gray-700 text-white' : ''
                     }`}
@@ -901,46 +1703,65 @@ const Index = () => {
                       </option>
                     ))}
                   </select>
+                  <FieldError message={jarForm.formState.errors.categoryId?.message} />
                 </div>
                 <div className="mb-4">
-                  <label className={`block text-sm font-medium mb-2 ${textColor}`}>Currency Symbol</label>
+                  <label className={`block text-sm font-medium mb-2 ${textColor}`}>Currency</label>
                   <select
-                    value={newJar.currency}
-                    onChange={(e) => setNewJar({ ...newJar, currency: e.target.value })}
+                    {...jarForm.register('currency')}
                     className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none ${
                       darkMode ? 'bg-gray-700 text-white' : ''
                     }`}
                   >
-                    <option value="$">$ (USD - Dollar)</option>
-                    <option value="€">€ (EUR - Euro)</option>
-                    <option value="£">£ (GBP - Pound)</option>
-                    <option value="¥">¥ (JPY/CNY - Yen/Yuan)</option>
-                    <option value="₹">₹ (INR - Rupee)</option>
-                    <option value="₽">₽ (RUB - Ruble)</option>
-                    <option value="₩">₩ (KRW - Won)</option>
-                    <option value="PKR">PKR (Pakistani Rupee)</option>
-                    <option value="AED">AED (UAE Dirham)</option>
-                    <option value="SAR">SAR (Saudi Riyal)</option>
-                    <option value="CHF">CHF (Swiss Franc)</option>
-                    <option value="CAD">CAD (Canadian Dollar)</option>
-                    <option value="AUD">AUD (Australian Dollar)</option>
+                    {CURRENCIES.map(currency => (
+                      <option key={currency.code} value={currency.code}>
+                        {currency.symbol === currency.code ? currency.code : `${currency.symbol} (${currency.code})`} - {currency.name}
+                      </option>
+                    ))}
                   </select>
                 </div>
                 <div className="mb-4">
                   <label className={`block text-sm font-medium mb-2 ${textColor}`}>Target Date (Optional)</label>
                   <input
                     type="date"
-                    value={newJar.targetDate}
-                    onChange={(e) => setNewJar({ ...newJar, targetDate: e.target.value })}
+                    {...jarForm.register('targetDate')}
                     className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none ${
                       darkMode ? 'bg-gray-700 text-white' : ''
                     }`}
                     min={new Date().toISOString().split('T')[0]}
                   />
+                  <FieldError message={jarForm.formState.errors.targetDate?.message} />
                   <p className={`text-xs ${textSecondary} mt-1`}>
                     Set a deadline to calculate daily/weekly/monthly savings needed
                   </p>
                 </div>
+                <div className="mb-4">
+                  <label className={`block text-sm font-medium mb-2 ${textColor}`}>When the Goal Is Reached</label>
+                  <select
+                    {...jarForm.register('overflowPolicy')}
+                    className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none ${
+                      darkMode ? 'bg-gray-700 text-white' : ''
+                    }`}
+                  >
+                    <option value="keep">Keep extra savings in this jar</option>
+                    <option value="rollover">Roll extra into another jar</option>
+                    <option value="unallocated">Move extra to unallocated</option>
+                  </select>
+                  {newJarPolicy === 'rollover' && (
+                    <select
+                      {...jarForm.register('rolloverJarId', { valueAsNumber: true })}
+                      className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none mt-2 ${
+                        darkMode ? 'bg-gray-700 text-white' : ''
+                      }`}
+                    >
+                      <option value={0}>Choose a jar</option>
+                      {getRolloverCandidates(0, newJarCurrency).map(jar => (
+                        <option key={jar.id} value={jar.id}>{jar.name}</option>
+                      ))}
+                    </select>
+                  )}
+                  <FieldError message={jarForm.formState.errors.rolloverJarId?.message} />
+                </div>
                 <div className="flex gap-3">
                   <SavingsButton variant="secondary" onClick={() => setShowCreateModal(false)} className="flex-1 whitespace-nowrap">
                     Cancel
@@ -955,30 +1776,165 @@ const Index = () => {
         </div>
       )}
 
+      {/* Edit Jar Modal */}
+      {showEditJarModal && selectedJar && (
+        <div className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center p-4 z-40">
+          <div className={`${cardBg} rounded-3xl p-6 sm:p-8 max-w-md w-full shadow-2xl max-h-[90vh] overflow-y-auto`}>
+            <h3 className={`text-xl sm:text-2xl font-bold mb-6 ${textColor}`}>Edit Jar</h3>
+            <div className="mb-4">
+              <input
+                type="text"
+                placeholder="Jar Name"
+                {...jarEditForm.register('name')}
+                className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none ${
+                  darkMode ? 'bg-gray-700 text-white' : ''
+                }`}
+              />
+              <FieldError message={jarEditForm.formState.errors.name?.message} />
+            </div>
+            <div className="mb-4">
+              <input
+                type="text"
+                inputMode="decimal"
+                placeholder={`Target (${editCurrency})`}
+                {...jarEditForm.register('target')}
+                className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none ${
+                  darkMode ? 'bg-gray-700 text-white' : ''
+                }`}
+              />
+              <FieldError message={jarEditForm.formState.errors.target?.message} />
+            </div>
+            <div className="mb-4">
+              <label className={`block text-sm font-medium mb-2 ${textColor}`}>Category</label>
+              <select
+                {...jarEditForm.register('categoryId', { valueAsNumber: true })}
+                className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none ${
+                  darkMode ? 'bg-gray-700 text-white' : ''
+                }`}
+              >
+                {categories.map(cat => (
+                  <option key={cat.id} value={cat.id}>
+                    {cat.name}
+                  </option>
+                ))}
+              </select>
+              <FieldError message={jarEditForm.formState.errors.categoryId?.message} />
+            </div>
+            <div className="mb-4">
+              <label className={`block text-sm font-medium mb-2 ${textColor}`}>Currency</label>
+              <select
+                {...jarEditForm.register('currency')}
+                className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none ${
+                  darkMode ? 'bg-gray-700 text-white' : ''
+                }`}
+              >
+                {CURRENCIES.map(currency => (
+                  <option key={currency.code} value={currency.code}>
+                    {currency.symbol === currency.code ? currency.code : `${currency.symbol} (${currency.code})`} - {currency.name}
+                  </option>
+                ))}
+              </select>
+              {editCurrency !== toCurrencyCode(selectedJar.currency) && (
+                <p className={`text-xs ${textSecondary} mt-1`}>
+                  Enter the target in {editCurrency}. Existing savings are converted when you save.
+                </p>
+              )}
+            </div>
+            <div className="mb-4">
+              <label className={`block text-sm font-medium mb-2 ${textColor}`}>Target Date (Optional)</label>
+              <input
+                type="date"
+                {...jarEditForm.register('targetDate')}
+                className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none ${
+                  darkMode ? 'bg-gray-700 text-white' : ''
+                }`}
+              />
+              <FieldError message={jarEditForm.formState.errors.targetDate?.message} />
+            </div>
+            {editPreview && (
+              <div className={`${darkMode ? 'bg-gray-700' : 'bg-blue-50'} rounded-xl p-3 mb-6 text-sm ${textSecondary}`}>
+                <p>
+                  Progress: <span className={`font-bold ${textColor}`}>{editPreview.progress.toFixed(1)}%</span>
+                </p>
+                {editPreview.plan && (
+                  <p>
+                    Plan: <span className={`font-bold ${textColor}`}>{formatAmount(editPreview.plan.daily, selectedJar.currency)}</span> a day,{' '}
+                    <span className={`font-bold ${textColor}`}>{formatAmount(editPreview.plan.weekly, selectedJar.currency)}</span> a week
+                  </p>
+                )}
+              </div>
+            )}
+            <div className="flex gap-3">
+              <SavingsButton variant="secondary" onClick={() => setShowEditJarModal(false)} className="flex-1 whitespace-nowrap">
+                Cancel
+              </SavingsButton>
+              <SavingsButton onClick={saveJarEdit} className="flex-1 whitespace-nowrap">
+                Save
+              </SavingsButton>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Currency Change Confirmation Modal */}
+      {jarEditToConfirm && selectedJar && (
+        <div className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center p-4 z-50">
+          <div className={`${cardBg} rounded-3xl p-6 sm:p-8 max-w-md w-full shadow-2xl`}>
+            <h3 className={`text-xl sm:text-2xl font-bold mb-4 ${textColor}`}>
+              {jarEditToConfirm.rate !== null ? 'Convert Savings?' : 'No Exchange Rate'}
+            </h3>
+            <p className={`mb-6 ${textSecondary}`}>
+              {jarEditToConfirm.rate !== null
+                ? `At 1 ${toCurrencyCode(selectedJar.currency)} = ${Number(jarEditToConfirm.rate.toPrecision(6))} ${jarEditToConfirm.values.currency}, the ${formatAmount(selectedJar.saved, selectedJar.currency)} in "${selectedJar.name}" becomes ${formatAmount(
+                    changeJarCurrency(selectedJar, jarEditToConfirm.values.currency, jarEditToConfirm.rate).saved,
+                    jarEditToConfirm.values.currency
+                  )}. Every record, recurring deposit, waiting withdrawal and milestone is converted too.`
+                : `There's no rate between ${toCurrencyCode(selectedJar.currency)} and ${jarEditToConfirm.values.currency} in your currency settings. The amounts will keep their numbers, so ${formatAmount(selectedJar.saved, selectedJar.currency)} becomes ${formatAmount(
+                    changeJarCurrency(selectedJar, jarEditToConfirm.values.currency, 1).saved,
+                    jarEditToConfirm.values.currency
+                  )}.`}
+            </p>
+            <div className="flex gap-3">
+              <SavingsButton variant="secondary" onClick={() => setJarEditToConfirm(null)} className="flex-1">
+                Cancel
+              </SavingsButton>
+              <SavingsButton
+                onClick={() => applyJarEdit(jarEditToConfirm.values, jarEditToConfirm.rate ?? 1)}
+                className="flex-1"
+              >
+                {jarEditToConfirm.rate !== null ? 'Convert' : 'Keep Numbers'}
+              </SavingsButton>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Note Modal */}
       {showNoteModal && (
         <div className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center p-4 z-40">
           <div className={`${cardBg} rounded-3xl p-6 sm:p-8 max-w-md w-full shadow-2xl`}>
             <h3 className={`text-xl sm:text-2xl font-bold mb-6 ${textColor}`}>Add Note</h3>
-            <textarea
-              placeholder="Write your note..."
-              value={newNote.text}
-              onChange={(e) => setNewNote({ ...newNote, text: e.target.value })}
-              rows={6}
-              className={`w-full px-4 py-3 rounded-xl border-2 focus:outline-none mb-4 resize-none ${
-                darkMode ? 'bg-gray-700 text-white' : ''
-              }`}
-              style={{ borderColor: '#3c78f0', backgroundColor: noteColors[newNote.color].bg }}
-            />
+            <div className="mb-4">
+              <textarea
+                placeholder="Write your note..."
+                {...noteForm.register('text')}
+                rows={6}
+                className={`w-full px-4 py-3 rounded-xl border-2 focus:outline-none resize-none ${
+                  darkMode ? 'bg-gray-700 text-white' : ''
+                }`}
+                style={{ borderColor: '#3c78f0', backgroundColor: noteColors[noteColor].bg }}
+              />
+              <FieldError message={noteForm.formState.errors.text?.message} />
+            </div>
             <div className="mb-6">
               <label className={`block text-sm font-semibold mb-3 ${textColor}`}>Choose Color</label>
               <div className="grid grid-cols-6 gap-2">
                 {Object.keys(noteColors).map(color => (
                   <button
                     key={color}
-                    onClick={() => setNewNote({ ...newNote, color })}
+                    onClick={() => noteForm.setValue('color', color)}
                     className={`w-10 h-10 sm:w-12 sm:h-12 rounded-lg border-2 ${
-                      newNote.color === color ? 'ring-4 ring-blue-400' : ''
+                      noteColor === color ? 'ring-4 ring-blue-400' : ''
                     }`}
                     style={{ backgroundColor: noteColors[color].bg, borderColor: noteColors[color].border }}
                   />
@@ -990,7 +1946,7 @@ const Index = () => {
                 variant="secondary"
                 onClick={() => {
                   setShowNoteModal(false);
-                  setNewNote({ text: '', color: 'yellow' });
+                  noteForm.reset(emptyNoteForm());
                 }}
                 className="flex-1"
               >
@@ -1009,25 +1965,27 @@ const Index = () => {
         <div className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center p-4 z-40">
           <div className={`${cardBg} rounded-3xl p-6 sm:p-8 max-w-md w-full shadow-2xl`}>
             <h3 className={`text-xl sm:text-2xl font-bold mb-6 ${textColor}`}>Add Sticky Note</h3>
-            <textarea
-              placeholder="Write your note..."
-              value={newJarNote.text}
-              onChange={(e) => setNewJarNote({ ...newJarNote, text: e.target.value })}
-              rows={6}
-              className={`w-full px-4 py-3 rounded-xl border-2 focus:outline-none mb-4 resize-none ${
-                darkMode ? 'bg-gray-700 text-white' : ''
-              }`}
-              style={{ borderColor: '#3c78f0', backgroundColor: noteColors[newJarNote.color].bg }}
-            />
+            <div className="mb-4">
+              <textarea
+                placeholder="Write your note..."
+                {...jarNoteForm.register('text')}
+                rows={6}
+                className={`w-full px-4 py-3 rounded-xl border-2 focus:outline-none resize-none ${
+                  darkMode ? 'bg-gray-700 text-white' : ''
+                }`}
+                style={{ borderColor: '#3c78f0', backgroundColor: noteColors[jarNoteColor].bg }}
+              />
+              <FieldError message={jarNoteForm.formState.errors.text?.message} />
+            </div>
             <div className="mb-6">
               <label className={`block text-sm font-semibold mb-3 ${textColor}`}>Choose Color</label>
               <div className="grid grid-cols-6 gap-2">
                 {Object.keys(noteColors).map(color => (
                   <button
                     key={color}
-                    onClick={() => setNewJarNote({ ...newJarNote, color })}
+                    onClick={() => jarNoteForm.setValue('color', color)}
                     className={`w-10 h-10 sm:w-12 sm:h-12 rounded-lg border-2 ${
-                      newJarNote.color === color ? 'ring-4 ring-blue-400' : ''
+                      jarNoteColor === color ? 'ring-4 ring-blue-400' : ''
                     }`}
                     style={{ backgroundColor: noteColors[color].bg, borderColor: noteColors[color].border }}
                   />
@@ -1039,7 +1997,7 @@ const Index = () => {
                 variant="secondary"
                 onClick={() => {
                   setShowJarNoteModal(false);
-                  setNewJarNote({ text: '', color: 'yellow' });
+                  jarNoteForm.reset(emptyNoteForm());
                 }}
                 className="flex-1"
               >
@@ -1062,36 +2020,120 @@ const Index = () => {
               <div className="space-y-3">
                 {selectedJar.records.map(record => {
                   const recordDate = new Date(record.date);
+                  const isEditing = editingRecordId === record.id;
                   return (
                     <div
                       key={record.id}
                       className={`p-4 rounded-xl ${
                         record.type === 'saved'
                           ? darkMode ? 'bg-green-900/20' : 'bg-green-50'
-                          : darkMode ? 'bg-red-900/20' : 'bg-red-50'
+                          : record.type === 'overflow'
+                            ? darkMode ? 'bg-amber-900/20' : 'bg-amber-50'
+                            : darkMode ? 'bg-red-900/20' : 'bg-red-50'
                       }`}
                     >
-                      <div className="flex justify-between items-center">
-                        <div>
-                          <p className={`font-bold ${record.type === 'saved' ? 'text-green-600' : 'text-red-600'}`}>
-                            {record.type === 'saved' ? '+ $' : '- $'}{formatCurrency(record.amount)}
-                          </p>
-                          <p className={`text-sm ${textSecondary}`}>
-                            {recordDate.toLocaleDateString('en-US', { 
-                              year: 'numeric', 
-                              month: 'long', 
-                              day: 'numeric' 
-                            })}
-                          </p>
+                      {isEditing ? (
+                        <div className="flex flex-col sm:flex-row gap-2 sm:items-start">
+                          <div className="flex-1">
+                            <input
+                              type="text"
+                              inputMode="decimal"
+                              {...recordEditForm.register('amount')}
+                              className={`w-full px-3 py-2 rounded-lg border-2 focus:border-primary focus:outline-none ${
+                                recordEditForm.formState.errors.amount ? 'border-red-500' : 'border-gray-300'
+                              } ${darkMode ? 'bg-gray-700 text-white' : ''}`}
+                            />
+                            <FieldError message={recordEditForm.formState.errors.amount?.message} />
+                          </div>
+                          <div className="flex-1">
+                            <input
+                              type="date"
+                              {...recordEditForm.register('date')}
+                              className={`w-full px-3 py-2 rounded-lg border-2 focus:border-primary focus:outline-none ${
+                                recordEditForm.formState.errors.date ? 'border-red-500' : 'border-gray-300'
+                              } ${darkMode ? 'bg-gray-700 text-white' : ''}`}
+                            />
+                            <FieldError message={recordEditForm.formState.errors.date?.message} />
+                          </div>
+                          <div className="flex gap-2">
+                            <SavingsButton size="sm" onClick={saveRecordEdit} className="px-4">
+                              Save
+                            </SavingsButton>
+                            <SavingsButton size="sm" variant="secondary" onClick={() => setEditingRecordId(null)} className="px-4">
+                              Cancel
+                            </SavingsButton>
+                          </div>
                         </div>
-                        <div className={`px-3 py-1 rounded-full text-xs font-semibold ${
-                          record.type === 'saved'
-                            ? 'bg-green-600 text-white'
-                            : 'bg-red-600 text-white'
-                        }`}>
-                          {record.type === 'saved' ? 'Saved' : 'Withdrawn'}
+                      ) : (
+                        <div className="flex justify-between items-center">
+                          <div>
+                            <p className={`font-bold ${record.type === 'saved' ? 'text-green-600' : record.type === 'overflow' ? 'text-amber-600' : 'text-red-600'}`}>
+                              {formatAmount(record.type === 'saved' ? record.amount : -record.amount, selectedJar.currency, true)}
+                            </p>
+                            {record.type === 'overflow' && (
+                              <p className={`text-xs ${textSecondary}`}>
+                                Surplus moved to {record.overflowTo === 'unallocated'
+                                  ? 'unallocated'
+                                  : jars.find(j => j.id === record.overflowTo)?.name || 'a deleted jar'}
+                              </p>
+                            )}
+                            {record.rolloverFrom !== undefined && (
+                              <p className={`text-xs ${textSecondary}`}>
+                                Rolled over from {jars.find(j => j.id === record.rolloverFrom)?.name || 'a deleted jar'}
+                              </p>
+                            )}
+                            {record.fromUnallocated && (
+                              <p className={`text-xs ${textSecondary}`}>From unallocated</p>
+                            )}
+                            {record.automatic && (
+                              <p className={`text-xs ${textSecondary}`}>Automatic deposit</p>
+                            )}
+                            {record.imported && (
+                              <p className={`text-xs ${textSecondary}`}>Imported</p>
+                            )}
+                            {(record.reason || record.note) && (
+                              <p className={`text-xs ${textSecondary}`}>
+                                {[record.reason && WITHDRAWAL_REASONS[record.reason], record.note].filter(Boolean).join(' · ')}
+                              </p>
+                            )}
+                            <p className={`text-sm ${textSecondary}`}>
+                              {recordDate.toLocaleDateString('en-US', { 
+                                year: 'numeric', 
+                                month: 'long', 
+                                day: 'numeric' 
+                              })}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <div className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                              record.type === 'saved'
+                                ? 'bg-green-600 text-white'
+                                : record.type === 'overflow' ? 'bg-amber-500 text-white' : 'bg-red-600 text-white'
+                            }`}>
+                              {record.type === 'saved' ? 'Saved' : record.type === 'overflow' ? 'Overflow' : 'Withdrawn'}
+                            </div>
+                            {/* Transfers between jars or the pool are edited as a pair, so they stay read-only */}
+                            {record.type !== 'overflow' && record.rolloverFrom === undefined && !record.fromUnallocated && (
+                              <>
+                                <button
+                                  onClick={() => startRecordEdit(record)}
+                                  className={`p-1.5 rounded-lg ${darkMode ? 'hover:bg-gray-700' : 'hover:bg-white'} transition-colors`}
+                                  title="Edit Record"
+                                >
+                                  <Pencil size={14} className={textSecondary} />
+                                </button>
+                                <button
+                                  onClick={() => removeRecord(record.id)}
+                                  className={`p-1.5 rounded-lg ${darkMode ? 'hover:bg-gray-700' : 'hover:bg-white'} transition-colors`}
+                                  title="Delete Record"
+                                >
+                                  <Trash2 size={14} className="text-red-600" />
+                                </button>
+                              </>
+                            )}
+                          </div>
                         </div>
-                      </div>
+                      )}
                     </div>
                   );
                 })}
@@ -1100,7 +2142,10 @@ const Index = () => {
               <p className={`text-center ${textSecondary} py-8`}>No records yet. Start saving or withdrawing to see your history!</p>
             )}
             <div className="mt-6">
-              <SavingsButton onClick={() => setShowRecordsModal(false)} className="w-full">
+              <SavingsButton onClick={() => {
+                setShowRecordsModal(false);
+                setEditingRecordId(null);
+              }} className="w-full">
                 Close
               </SavingsButton>
             </div>
@@ -1114,7 +2159,7 @@ const Index = () => {
           <div className={`${cardBg} rounded-3xl p-6 sm:p-8 max-w-md w-full shadow-2xl`}>
             <h3 className={`text-xl sm:text-2xl font-bold mb-4 ${textColor}`}>Delete Jar?</h3>
             <p className={`mb-6 ${textSecondary}`}>
-              Delete "{jarToDelete.name}"? This cannot be undone.
+              Delete "{jarToDelete.name}"? It stays in the trash for {trashRetention} days in case you change your mind.
             </p>
             <div className="flex gap-3">
               <SavingsButton
@@ -1135,22 +2180,60 @@ const Index = () => {
         </div>
       )}
 
+      {/* Withdrawal Confirmation Modal */}
+      {withdrawalToConfirm && selectedJar && (
+        <div className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center p-4 z-50">
+          <div className={`${cardBg} rounded-3xl p-6 sm:p-8 max-w-md w-full shadow-2xl`}>
+            <h3 className={`text-xl sm:text-2xl font-bold mb-4 ${textColor}`}>
+              {withdrawalToConfirm.warning === 'empties-jar' ? 'Empty This Jar?' : 'Confirm Withdrawal'}
+            </h3>
+            <p className={`mb-6 ${textSecondary}`}>
+              {withdrawalToConfirm.warning === 'empties-jar'
+                ? `Withdrawing ${formatAmount(withdrawalToConfirm.amount, selectedJar.currency)} leaves "${selectedJar.name}" empty.`
+                : `Withdraw ${formatAmount(withdrawalToConfirm.amount, selectedJar.currency)} from "${selectedJar.name}"? That's more than half of what you've saved.`}
+            </p>
+            <div className="flex gap-3">
+              <SavingsButton variant="secondary" onClick={() => setWithdrawalToConfirm(null)} className="flex-1">
+                Cancel
+              </SavingsButton>
+              <SavingsButton variant="danger" onClick={() =>
+                  completeWithdrawal(withdrawalToConfirm.amount, {
+                    reason: withdrawalToConfirm.reason,
+                    note: withdrawalToConfirm.note,
+                  })
+                } className="flex-1">
+                Withdraw
+              </SavingsButton>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Category Modal */}
       {showCategoryModal && (
         <div className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center p-4 z-40">
           <div className={`${cardBg} rounded-3xl p-6 sm:p-8 max-w-md w-full shadow-2xl`}>
             <h3 className={`text-xl sm:text-2xl font-bold mb-6 ${textColor}`}>Create New Category</h3>
-            <input
-              type="text"
-              placeholder="Category Name"
-              value={newCategory.name}
-              onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
-              className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none mb-4 ${
-                darkMode ? 'bg-gray-700 text-white' : ''
-              }`}
-            />
+            <div className="mb-4">
+              <input
+                type="text"
+                placeholder="Category Name"
+                {...categoryForm.register('name')}
+                className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none ${
+                  darkMode ? 'bg-gray-700 text-white' : ''
+                }`}
+              />
+              <FieldError message={categoryForm.formState.errors.name?.message} />
+            </div>
             <div className="flex gap-3">
-              <SavingsButton variant="secondary" onClick={() => setShowCategoryModal(false)} className="flex-1 whitespace-nowrap">
+              <SavingsButton
+                variant="secondary"
+                onClick={() => {
+                  setShowCategoryModal(false);
+                  categoryForm.reset({ name: '' });
+                }}
+                className="flex-1 whitespace-nowrap"
+              >
                 Cancel
               </SavingsButton>
               <SavingsButton onClick={createCategory} className="flex-1 whitespace-nowrap">
@@ -1166,15 +2249,17 @@ const Index = () => {
         <div className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center p-4 z-40">
           <div className={`${cardBg} rounded-3xl p-6 sm:p-8 max-w-md w-full shadow-2xl`}>
             <h3 className={`text-xl sm:text-2xl font-bold mb-6 ${textColor}`}>Edit Category</h3>
-            <input
-              type="text"
-              placeholder="Category Name"
-              value={editingCategory.name}
-              onChange={(e) => setEditingCategory({ ...editingCategory, name: e.target.value })}
-              className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none mb-4 ${
-                darkMode ? 'bg-gray-700 text-white' : ''
-              }`}
-            />
+            <div className="mb-4">
+              <input
+                type="text"
+                placeholder="Category Name"
+                {...editCategoryForm.register('name')}
+                className={`w-full px-4 py-3 rounded-xl border-2 border-primary focus:outline-none ${
+                  darkMode ? 'bg-gray-700 text-white' : ''
+                }`}
+              />
+              <FieldError message={editCategoryForm.formState.errors.name?.message} />
+            </div>
             <div className="flex gap-3">
               <SavingsButton 
                 variant="secondary" 
@@ -1190,6 +2275,12 @@ const Index = () => {
                 Save
               </SavingsButton>
             </div>
+            <button
+              onClick={() => confirmDeleteCategory(editingCategory)}
+              className="w-full mt-4 text-sm font-semibold text-red-600 hover:underline"
+            >
+              Delete Category
+            </button>
           </div>
         </div>
       )}
@@ -1199,9 +2290,30 @@ const Index = () => {
         <div className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center p-4 z-50">
           <div className={`${cardBg} rounded-3xl p-6 sm:p-8 max-w-md w-full shadow-2xl`}>
             <h3 className={`text-xl sm:text-2xl font-bold mb-4 ${textColor}`}>Delete Category?</h3>
-            <p className={`mb-6 ${textSecondary}`}>
-              Delete category "{categoryToDelete.name}"? This will also delete all jars in this category. This cannot be undone.
+            <p className={`mb-4 ${textSecondary}`}>
+              Delete category "{categoryToDelete.name}"? It stays in the trash for {trashRetention} days in case you change your mind.
             </p>
+            {getCategoryJars(categoryToDelete.id).length > 0 && (
+              <div className="mb-6">
+                <label className={`block text-sm font-semibold mb-2 ${textSecondary}`}>
+                  {getCategoryJars(categoryToDelete.id).length === 1
+                    ? 'The jar in this category'
+                    : `The ${getCategoryJars(categoryToDelete.id).length} jars in this category`}
+                </label>
+                <select
+                  value={moveJarsTo}
+                  onChange={(e) => setMoveJarsTo(Number(e.target.value))}
+                  className={`w-full px-4 py-3 rounded-xl border-2 border-gray-300 focus:border-primary focus:outline-none ${
+                    darkMode ? 'bg-gray-700 text-white' : ''
+                  }`}
+                >
+                  {categories.filter(c => c.id !== categoryToDelete.id).map(c => (
+                    <option key={c.id} value={c.id}>Move to "{c.name}"</option>
+                  ))}
+                  <option value={0}>Move to the trash as well</option>
+                </select>
+              </div>
+            )}
             <div className="flex gap-3">
               <SavingsButton
                 variant="secondary"
@@ -1230,7 +2342,7 @@ const Index = () => {
             </h3>
             <div className="space-y-4 mb-6">
               <div>
-                <label className={`block text-sm font-semibold mb-2 ${textColor}`}>Target Amount ($)</label>
+                <label className={`block text-sm font-semibold mb-2 ${textColor}`}>Target Amount ({currencyPreferences.baseCurrency})</label>
                 <input
                   type="number"
                   placeholder="Enter target amount"
@@ -1263,20 +2375,20 @@ const Index = () => {
                 <h4 className={`text-lg font-bold ${textColor} mb-4 text-center`}>Daily Savings Plan</h4>
                 <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-4 text-center mb-3`}>
                   <p className={`text-sm ${textSecondary} mb-1`}>Save Daily</p>
-                  <p className={`text-3xl font-bold ${textColor}`}>${formatCurrency(dailySavings)}</p>
+                  <p className={`text-3xl font-bold ${textColor}`}>{formatAmount(dailySavings, currencyPreferences.baseCurrency)}</p>
                 </div>
                 <div className="grid grid-cols-2 gap-3">
                   <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-3 text-center`}>
                     <p className={`text-xs ${textSecondary} mb-1`}>Weekly</p>
-                    <p className={`text-lg font-bold ${textColor}`}>${formatCurrency(dailySavings * 7)}</p>
+                    <p className={`text-lg font-bold ${textColor}`}>{formatAmount(dailySavings * 7, currencyPreferences.baseCurrency)}</p>
                   </div>
                   <div className={`${darkMode ? 'bg-gray-800' : 'bg-white'} rounded-xl p-3 text-center`}>
                     <p className={`text-xs ${textSecondary} mb-1`}>Monthly</p>
-                    <p className={`text-lg font-bold ${textColor}`}>${formatCurrency(dailySavings * 30)}</p>
+                    <p className={`text-lg font-bold ${textColor}`}>{formatAmount(dailySavings * 30, currencyPreferences.baseCurrency)}</p>
                   </div>
                 </div>
                 <p className={`text-xs ${textSecondary} text-center mt-3`}>
-                  To reach ${formatCurrency(parseFloat(calcTargetAmount))} by {new Date(calcTargetDate).toLocaleDateString()}
+                  To reach {formatAmount(parseAmount(calcTargetAmount, currencyPreferences.baseCurrency) || 0, currencyPreferences.baseCurrency)} by {new Date(calcTargetDate).toLocaleDateString()}
                 </p>
               </div>
             )}
@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+/** The package.json version, injected by vite.config.ts */
+declare const __APP_VERSION__: string;